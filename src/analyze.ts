@@ -0,0 +1,242 @@
+import {
+  getEdges,
+  getSources,
+  getStateNode,
+  getTarget,
+  getTransitions,
+  resolveInitial,
+  resolveTarget,
+  StateConfig,
+  TransitionConfig,
+  WILDCARD,
+} from './machine';
+
+/**
+ * Problem found in transitions map
+ *
+ * @property type - kind of problem
+ * @property message - human readable description. Logged by useFSM on debug logLevel
+ * @property states - states of problem. States declaring the event for unusedEvent, source state for unknownTarget
+ * @property event - unused event name, event of transition for unknownTarget
+ * @property target - path of target missing in map for unknownTarget
+ *
+ * @version 0.2.0
+ */
+export type FSMDiagnostic = {
+  type: 'unreachable' | 'deadEnd' | 'unusedEvent' | 'unknownTarget';
+  message: string;
+  states: string[];
+  event?: string;
+  target?: string;
+};
+
+/**
+ * Result of analyzeMachine. States are dotted paths of atomic states, region name is the first segment in parallel FSM
+ *
+ * @property unreachableStates - states never reached from initial state
+ * @property deadEndStates - states without transitions to other states. Final states are not dead ends
+ * @property stronglyConnectedComponents - groups of states reachable from each other. Every state is in one group
+ * @property unusedEvents - events declared in map, but not available in any reachable state
+ * @property unknownTargets - transitions whose target is missing in map, or whose initial child is. They are skipped by other checks
+ * @property diagnostics - unreachable states, dead ends, unused events and unknown targets as list. Cycles are ordinary flows and not reported
+ *
+ * @version 0.2.0
+ */
+export type FSMAnalysis = {
+  unreachableStates: string[];
+  deadEndStates: string[];
+  stronglyConnectedComponents: string[][];
+  unusedEvents: string[];
+  unknownTargets: { state: string; event: string; target: string }[];
+  diagnostics: FSMDiagnostic[];
+};
+
+/**
+ * Dotted paths of all states in transitions map, compound states included
+ */
+const getStatePaths = (transitions: object, prefix = ''): string[] =>
+  Object.entries<StateConfig<string>>(transitions as Record<string, StateConfig<string>>).flatMap(
+    ([state, stateNode]) => [
+      `${prefix}${state}`,
+      ...(stateNode.states ? getStatePaths(stateNode.states, `${prefix}${state}.`) : []),
+    ],
+  );
+
+/**
+ * Tarjan's algorithm. Components are returned in reverse topological order
+ */
+const getComponents = (states: string[], getTargets: (state: string) => string[]) => {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const connect = (state: string) => {
+    indexes.set(state, indexes.size);
+    lowLinks.set(state, indexes.size - 1);
+    stack.push(state);
+
+    for (const target of getTargets(state)) {
+      if (!indexes.has(target)) {
+        connect(target);
+        lowLinks.set(state, Math.min(lowLinks.get(state)!, lowLinks.get(target)!));
+      } else if (stack.includes(target)) {
+        lowLinks.set(state, Math.min(lowLinks.get(state)!, indexes.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(state) === indexes.get(state)) {
+      const component = stack.splice(stack.indexOf(state));
+      components.push(component);
+    }
+  };
+
+  states.filter((state) => !indexes.has(state)).forEach(connect);
+  return components;
+};
+
+/**
+ * Analyze one transitions map. Parallel FSM is analyzed region by region
+ */
+const analyzeRegion = (initialState: string, transitions: object) => {
+  const paths = getStatePaths(transitions);
+  const getNode = (path: string) => getStateNode(transitions, path) as StateConfig<string>;
+  const states = paths.filter((path) => path !== WILDCARD && !getNode(path).states);
+  const isState = (path: string) => getStateNode(transitions, path) !== undefined;
+  const resolve = (source: string, edge: string | TransitionConfig<string>) =>
+    resolveInitial(transitions, resolveTarget(transitions, source, getTarget(edge)));
+  const getTargets = (state: string) =>
+    getSources(transitions, state)
+      .filter(isState)
+      .flatMap((source) => getEdges(getNode(source)).map(([, edge]) => resolve(source, edge)))
+      .filter(isState);
+
+  const reachable = new Set([resolveInitial(transitions, initialState)]);
+  for (const state of reachable) {
+    getTargets(state).forEach((target) => reachable.add(target));
+  }
+
+  return {
+    states,
+    reachable: [...reachable],
+    deadEndStates: states.filter(
+      (state) => !getNode(state).final && getTargets(state).every((target) => target === state),
+    ),
+    stronglyConnectedComponents: getComponents(states, getTargets),
+    declaredEvents: paths.map((path): [string, string[]] => [
+      path,
+      getTransitions(getNode(path)).map(([event]) => event),
+    ]),
+    usedEvents: [...reachable].flatMap((state) =>
+      getSources(transitions, state)
+        .filter(isState)
+        .flatMap((path) => getTransitions(getNode(path)).map(([event]) => event)),
+    ),
+    unknownTargets: paths.flatMap((state) =>
+      getEdges(getNode(state))
+        .map(([event, edge]) => ({ state, event, target: resolve(state, edge) }))
+        .filter(({ target }) => !isState(target)),
+    ),
+  };
+};
+
+/**
+ * Static analysis of transitions map. Finds problems that type checks of transitions can't catch
+ * Guards are not evaluated, guarded transitions are treated as possible
+ *
+ * @property initialState - initial state of FSM. Object of region states for parallel FSM
+ * @property transitions - map of states and transitions. Map of regions for parallel FSM
+ *
+ * @example
+ *   analyzeMachine('idle', {
+ *     idle: { typing: 'typing' },
+ *     typing: { submit: 'done' },
+ *     done: {},
+ *     lost: { back: 'idle' },
+ *   });
+ *   // unreachableStates: ['lost'], deadEndStates: ['done']
+ *
+ * @return FSMAnalysis - unreachable states, dead ends, strongly connected components, unused events and diagnostics
+ *
+ * @version 0.2.0
+ */
+export const analyzeMachine = (
+  initialState: string | Record<string, string>,
+  transitions: object,
+): FSMAnalysis => {
+  const regions =
+    typeof initialState === 'string'
+      ? [{ prefix: '', analysis: analyzeRegion(initialState, transitions) }]
+      : Object.entries(transitions).map(([region, regionTransitions]) => ({
+          prefix: `${region}.`,
+          analysis: analyzeRegion(initialState[region], regionTransitions),
+        }));
+  const collect = (select: (analysis: ReturnType<typeof analyzeRegion>) => string[]) =>
+    regions.flatMap(({ prefix, analysis }) => select(analysis).map((state) => prefix + state));
+
+  const reachable = collect(({ reachable }) => reachable);
+  const unreachableStates = collect(({ states }) => states).filter(
+    (state) => !reachable.includes(state),
+  );
+  const deadEndStates = collect(({ deadEndStates }) => deadEndStates);
+  const stronglyConnectedComponents = regions.flatMap(({ prefix, analysis }) =>
+    analysis.stronglyConnectedComponents.map((component) =>
+      component.map((state) => prefix + state),
+    ),
+  );
+  const usedEvents = new Set(regions.flatMap(({ analysis }) => analysis.usedEvents));
+  const declaredEvents = regions.flatMap(({ prefix, analysis }) =>
+    analysis.declaredEvents.map(([path, events]): [string, string[]] => [prefix + path, events]),
+  );
+  const unusedEvents = [
+    ...new Set(
+      declaredEvents.flatMap(([, events]) => events).filter((event) => !usedEvents.has(event)),
+    ),
+  ];
+  const unknownTargets = regions.flatMap(({ prefix, analysis }) =>
+    analysis.unknownTargets.map((item) => ({ ...item, state: prefix + item.state })),
+  );
+
+  return {
+    unreachableStates,
+    deadEndStates,
+    stronglyConnectedComponents,
+    unusedEvents,
+    unknownTargets,
+    diagnostics: [
+      ...unreachableStates.map(
+        (state): FSMDiagnostic => ({
+          type: 'unreachable',
+          message: `Unreachable state ${state}`,
+          states: [state],
+        }),
+      ),
+      ...deadEndStates.map(
+        (state): FSMDiagnostic => ({
+          type: 'deadEnd',
+          message: `Dead-end state ${state}`,
+          states: [state],
+        }),
+      ),
+      ...unusedEvents.map(
+        (event): FSMDiagnostic => ({
+          type: 'unusedEvent',
+          message: `Unused event ${event}`,
+          states: declaredEvents
+            .filter(([, events]) => events.includes(event))
+            .map(([path]) => path),
+          event,
+        }),
+      ),
+      ...unknownTargets.map(
+        ({ state, event, target }): FSMDiagnostic => ({
+          type: 'unknownTarget',
+          message: `Unknown target ${target} of ${event} in ${state}`,
+          states: [state],
+          event,
+          target,
+        }),
+      ),
+    ],
+  };
+};
@@ -0,0 +1,359 @@
+import type { FSMAction, FSMLogger, FSMState, FSMTransitionRecord } from './machine';
+import type { FSMMachineDefinition, FSMStore } from './store';
+
+/**
+ * Mounted machine as seen by devtools
+ *
+ * @property id - unique id of machine. From config, name of store or generated
+ * @property definition - initial state and transitions map
+ * @property state - current snapshot
+ * @property log - transition log, same as getTransitionLog()
+ *
+ * @version 0.2.0
+ */
+export type FSMInspectedMachine = {
+  id: string;
+  definition: FSMMachineDefinition;
+  state: FSMState<unknown, unknown>;
+  log: FSMTransitionRecord<unknown>[];
+};
+
+/**
+ * Event of inspector stream
+ *
+ * register - machine is mounted
+ * action - machine changed by action, state is the new snapshot
+ * unregister - machine is unmounted
+ *
+ * @version 0.2.0
+ */
+export type FSMInspectorEvent =
+  | { type: 'register'; machine: FSMInspectedMachine }
+  | {
+      type: 'action';
+      id: string;
+      action: FSMAction<unknown, unknown>;
+      state: FSMState<unknown, unknown>;
+    }
+  | { type: 'unregister'; id: string };
+
+/**
+ * Part of store used by inspector. Any store fits, typed or not
+ *
+ * @version 0.2.0
+ */
+export type FSMInspectable = Pick<
+  FSMStore<unknown, unknown, unknown>,
+  'id' | 'definition' | 'getSnapshot' | 'getTransitionLog' | 'subscribe' | 'jumpTo'
+>;
+
+/**
+ * Connects inspector to devtools
+ *
+ * @version 0.2.0
+ */
+export type FSMDevtoolsAdapter = {
+  /**
+   * Start listening inspector
+   * @return function - disconnect
+   */
+  connect: (inspector: FSMInspector) => () => void;
+};
+
+/**
+ * Registry of mounted machines with event stream. Pass it to FSMProvider
+ *
+ * @version 0.2.0
+ */
+export type FSMInspector = {
+  /**
+   * Add machine to registry. Same machine registered again gets the same id and is removed after last unregister
+   * @return function - unregister
+   */
+  register: (store: FSMInspectable, id?: string) => () => void;
+
+  /**
+   * Current snapshots of registered machines
+   */
+  getMachines: () => FSMInspectedMachine[];
+
+  /**
+   * Move machine to index of its timeline. Same as jumpTo of machine
+   * @return boolean - true if jump was applied
+   */
+  jumpTo: (id: string, index: number) => boolean;
+
+  /**
+   * Subscribe to event stream
+   * @return function - unsubscribe
+   */
+  subscribe: (listener: (event: FSMInspectorEvent) => void) => () => void;
+
+  /**
+   * Connect adapter
+   * @return function - disconnect
+   */
+  connect: (adapter: FSMDevtoolsAdapter) => () => void;
+};
+
+/**
+ * Create registry of mounted machines. Machines of useFSM, useFSMStore and useFSMSelector under FSMProvider with inspector are registered on mount
+ *
+ * @example
+ *   const inspector = createFSMInspector();
+ *   inspector.connect(reduxDevtoolsAdapter({ name: 'checkout' }));
+ *
+ *   <FSMProvider inspector={inspector}>
+ *     <App/>
+ *   </FSMProvider>
+ *
+ * @version 0.2.0
+ */
+export const createFSMInspector = (): FSMInspector => {
+  const listeners = new Set<(event: FSMInspectorEvent) => void>();
+  const machines = new Map<
+    FSMInspectable,
+    { id: string; count: number; unsubscribe: () => void }
+  >();
+  let lastId = 0;
+
+  const emit = (event: FSMInspectorEvent) => listeners.forEach((listener) => listener(event));
+
+  const inspect = (machine: FSMInspectable, id: string): FSMInspectedMachine => ({
+    id,
+    definition: machine.definition,
+    state: machine.getSnapshot(),
+    log: machine.getTransitionLog(),
+  });
+
+  const uniqueId = (id: string) => {
+    const ids = [...machines.values()].map((entry) => entry.id);
+    let unique = id;
+    for (let index = 2; ids.includes(unique); index++) {
+      unique = `${id}:${index}`;
+    }
+    return unique;
+  };
+
+  const find = (id: string) => [...machines.entries()].find(([, entry]) => entry.id === id)?.[0];
+
+  const inspector: FSMInspector = {
+    register: (machine, id) => {
+      const registered = machines.get(machine);
+      if (registered) {
+        registered.count++;
+      } else {
+        const entry = {
+          id: uniqueId(id ?? machine.id ?? `machine-${++lastId}`),
+          count: 1,
+          unsubscribe: machine.subscribe((action) =>
+            emit({ type: 'action', id: entry.id, action, state: machine.getSnapshot() }),
+          ),
+        };
+        machines.set(machine, entry);
+        emit({ type: 'register', machine: inspect(machine, entry.id) });
+      }
+
+      let active = true;
+      return () => {
+        const entry = machines.get(machine);
+        if (!active || !entry) {
+          return;
+        }
+        active = false;
+        if (--entry.count === 0) {
+          entry.unsubscribe();
+          machines.delete(machine);
+          emit({ type: 'unregister', id: entry.id });
+        }
+      };
+    },
+    getMachines: () => [...machines.entries()].map(([machine, { id }]) => inspect(machine, id)),
+    jumpTo: (id, index) => find(id)?.jumpTo(index) ?? false,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    connect: (adapter) => adapter.connect(inspector),
+  };
+  return inspector;
+};
+
+/**
+ * In-memory adapter. Collects events of inspector, for tests
+ *
+ * @property events - all events since connect
+ *
+ * @example
+ *   const devtools = memoryDevtoolsAdapter();
+ *   inspector.connect(devtools);
+ *   expect(devtools.events.map(({ type }) => type)).toEqual(['register', 'action']);
+ *
+ * @version 0.2.0
+ */
+export const memoryDevtoolsAdapter = (): FSMDevtoolsAdapter & { events: FSMInspectorEvent[] } => {
+  const events: FSMInspectorEvent[] = [];
+  return {
+    events,
+    connect: (inspector) => inspector.subscribe((event) => events.push(event)),
+  };
+};
+
+/**
+ * Message of Redux DevTools extension to connected instance
+ *
+ * @version 0.2.0
+ */
+export type ReduxDevtoolsMessage = {
+  type: string;
+  payload?: { type: string };
+  state?: string;
+};
+
+/**
+ * Connection of Redux DevTools extension. Returned by connect of extension
+ *
+ * @version 0.2.0
+ */
+export type ReduxDevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (action: { type: string; payload?: unknown }, state: unknown) => void;
+  subscribe: (listener: (message: ReduxDevtoolsMessage) => void) => (() => void) | void;
+  unsubscribe?: () => void;
+};
+
+/**
+ * Redux DevTools extension. window.__REDUX_DEVTOOLS_EXTENSION__ in browser
+ *
+ * @version 0.2.0
+ */
+export type ReduxDevtoolsExtension = {
+  connect: (options: { name?: string }) => ReduxDevtoolsConnection;
+};
+
+/**
+ * @property name - instance name in Redux DevTools
+ * @property extension - extension to connect. Default: globalThis.__REDUX_DEVTOOLS_EXTENSION__, so adapter is safe outside browser
+ * @property logger - logger of skipped jumps. console default logger
+ *
+ * @version 0.2.0
+ */
+export type ReduxDevtoolsOptions = {
+  name?: string;
+  extension?: ReduxDevtoolsExtension;
+  logger?: FSMLogger;
+};
+
+/**
+ * Index of target snapshot in timeline of live snapshot. Snapshots of devtools are parsed JSON, so entries are compared as JSON
+ * Target is found by its last history entry, or by its first future entry when history is empty
+ * @return number | undefined - undefined when target is trimmed by maxHistoryLength or discarded by transition after undo
+ */
+const findTimelineIndex = (
+  live: FSMState<unknown, unknown>,
+  target: FSMState<unknown, unknown>,
+) => {
+  const entries = [...live.history, ...live.future].map((entry) => JSON.stringify(entry));
+  const states = [
+    ...live.history.map(({ from }) => from),
+    live.currentState,
+    ...live.future.map(({ to }) => to),
+  ];
+  const last = target.history.at(-1);
+  const next = target.future[0];
+
+  let index = 0;
+  if (last) {
+    const found = entries.indexOf(JSON.stringify(last));
+    index = found < 0 ? -1 : found + 1;
+  } else if (next) {
+    index = entries.indexOf(JSON.stringify(next));
+  }
+
+  return index >= 0 && JSON.stringify(states[index]) === JSON.stringify(target.currentState)
+    ? index
+    : undefined;
+};
+
+/**
+ * Adapter for Redux DevTools extension. State of devtools is object of machine snapshots by id
+ * Actions are named `id/event` for transitions and `id/UNDO`, `id/REDO`, `id/JUMP` for time travel
+ * Jump to state and jump to action of devtools move machines to that point of their timelines
+ * Machines whose snapshot is no longer in their timeline are skipped with warning
+ * Without extension connect does nothing, in SSR and tests too
+ *
+ * @example inspector.connect(reduxDevtoolsAdapter({ name: 'checkout' }));
+ *
+ * @version 0.2.0
+ */
+export const reduxDevtoolsAdapter = ({
+  name = 'fsm-hook',
+  extension,
+  logger = console,
+}: ReduxDevtoolsOptions = {}): FSMDevtoolsAdapter => ({
+  connect: (inspector) => {
+    const devtools = (
+      extension ??
+      (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: ReduxDevtoolsExtension })
+        .__REDUX_DEVTOOLS_EXTENSION__
+    )?.connect({ name });
+    if (!devtools) {
+      return () => undefined;
+    }
+
+    let jumping = false;
+    const getState = () =>
+      Object.fromEntries(inspector.getMachines().map(({ id, state }) => [id, state]));
+
+    devtools.init(getState());
+    const unsubscribeInspector = inspector.subscribe((event) => {
+      if (event.type === 'register') {
+        devtools.send({ type: `${event.machine.id}/@@REGISTER` }, getState());
+      } else if (event.type === 'unregister') {
+        devtools.send({ type: `${event.id}/@@UNREGISTER` }, getState());
+      } else if (!jumping) {
+        const { action } = event;
+        devtools.send(
+          action.type === 'TRANSITION'
+            ? { type: `${event.id}/${action.event}`, payload: action.payload }
+            : { type: `${event.id}/${action.type}` },
+          getState(),
+        );
+      }
+    });
+
+    const unsubscribeDevtools = devtools.subscribe((message) => {
+      if (
+        message.type !== 'DISPATCH' ||
+        !['JUMP_TO_STATE', 'JUMP_TO_ACTION'].includes(message.payload?.type as string) ||
+        !message.state
+      ) {
+        return;
+      }
+      const states = JSON.parse(message.state) as Record<string, FSMState<unknown, unknown>>;
+      const machines = inspector.getMachines();
+      jumping = true;
+      Object.entries(states).forEach(([id, state]) => {
+        const live = machines.find((machine) => machine.id === id);
+        if (!live) {
+          return;
+        }
+        const index = findTimelineIndex(live.state, state);
+        if (index === undefined) {
+          logger.warn(`State of ${id} is not in its timeline, jump is skipped`);
+        } else {
+          inspector.jumpTo(id, index);
+        }
+      });
+      jumping = false;
+    });
+
+    return () => {
+      unsubscribeInspector();
+      unsubscribeDevtools?.();
+      devtools.unsubscribe?.();
+    };
+  },
+});
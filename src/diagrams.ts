@@ -0,0 +1,403 @@
+import {
+  getAncestors,
+  getEdges,
+  getTarget,
+  getTransitions,
+  resolveInitial,
+  resolveTarget,
+  StateConfig,
+  Transitions,
+  WILDCARD,
+} from './machine';
+
+/**
+ * Options of diagram generators. States are dotted paths, like currentState of machine
+ *
+ * @property initialState - state marked as initial
+ * @property currentState - state highlighted as current
+ * @property history - traversed path, highlighted. Transition log of machine: getTransitionLog()
+ * @property direction - direction of layout. Default: top to bottom
+ *
+ * @example generateDotDiagram(transitions, { initialState: 'idle', currentState, history: getTransitionLog(), direction: 'LR' })
+ *
+ * @version 0.2.0
+ */
+export type FSMDiagramOptions = {
+  initialState?: string;
+  currentState?: string;
+  history?: { from: string; to: string; event: string }[];
+  direction?: 'TB' | 'BT' | 'LR' | 'RL';
+};
+
+/**
+ * State of transitions map prepared for rendering
+ */
+type DiagramState = {
+  path: string;
+  name: string;
+  initial?: string;
+  final: boolean;
+  children: DiagramState[];
+  edges: DiagramEdge[];
+};
+
+type DiagramEdge = {
+  event: string;
+  source: string;
+  target: string;
+};
+
+/**
+ * Walk of transitions map shared by all generators. Targets are resolved to dotted paths
+ * Wildcard is not a state: its transitions are added to every top level state that doesn't declare the same event
+ */
+const walk = (transitions: object, root: object = transitions, parent = ''): DiagramState[] => {
+  const { [WILDCARD]: wildcard = {}, ...states } = transitions as Record<
+    string,
+    StateConfig<string>
+  >;
+  const global = parent ? [] : getTransitions<string>(wildcard);
+  return Object.entries(states).map(([name, stateNode]) => {
+    const path = parent ? `${parent}.${name}` : name;
+    return {
+      path,
+      name,
+      initial: stateNode.states
+        ? `${path}.${stateNode.initial ?? Object.keys(stateNode.states)[0]}`
+        : undefined,
+      final: stateNode.final === true,
+      children: stateNode.states ? walk(stateNode.states, root, path) : [],
+      edges: [...getEdges(stateNode), ...global.filter(([event]) => !(event in stateNode))].map(
+        ([event, transition]) => ({
+          event,
+          source: path,
+          target: resolveTarget(root, path, getTarget(transition)),
+        }),
+      ),
+    };
+  });
+};
+
+const flatten = (states: DiagramState[]): DiagramState[] =>
+  states.flatMap((state) => [state, ...flatten(state.children)]);
+
+const isTraversed = ({ history = [] }: FSMDiagramOptions, { event, source, target }: DiagramEdge) =>
+  history.some(
+    (record) =>
+      record.event === event &&
+      getAncestors(record.from).includes(source) &&
+      getAncestors(record.to).includes(target),
+  );
+
+const isVisited = ({ history = [] }: FSMDiagramOptions, path: string) =>
+  history.some(({ from, to }) => from === path || to === path);
+
+/**
+ * Ids of states in Mermaid and PlantUML by path. Ids are global there, so they are derived from full path
+ * Dots, spaces and special characters are replaced with underscores, ids colliding after replacement get numeric suffix
+ * States whose id differs from name are declared with name as label
+ */
+const toIds = (states: DiagramState[]) => {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const { path } of states) {
+    const base = path.replace(/\W/g, '_');
+    let id = base;
+    for (let index = 2; used.has(id); index++) {
+      id = `${base}_${index}`;
+    }
+    used.add(id);
+    ids.set(path, id);
+  }
+  return (path: string) => ids.get(path) ?? path.replace(/\W/g, '_');
+};
+
+/**
+ * Escape special characters of Mermaid label as entity codes
+ */
+const escapeMermaid = (text: string) =>
+  text.replace(/[^\w\s.()-]/g, (char) => `#${char.charCodeAt(0)};`);
+
+/**
+ * Generate Mermaid diagram from transitions. You can pass result in https://www.mermaidchart.com/play
+ * Mermaid diagram is a simple way to show FSM
+ *
+ * @property transitions - states and transitions of FSM. Second param of useFSM
+ * @property options - initial state, current state, history path and direction
+ *
+ * Nested states are rendered as composite states with their initial child
+ * Delayed transitions are labeled as after(delay), transitions of invoke as onDone and onError
+ * Final states get transition to [*] end marker
+ * Transitions of wildcard are drawn from every top level state that doesn't override them
+ *
+ * @example
+ *  console.log(generateMermaidDiagram({
+ *     idle: {typing: 'typing'},
+ *     typing: {submitting: 'submitting', canceling: 'idle'},
+ *     submitting: {success: 'done', failure: 'fail'},
+ *     fail: {restart: 'idle'},
+ *     done: {final: true}
+ *   }));
+ *
+ * @return string - Mermaid diagram code
+ *
+ * @version 0.1.0
+ */
+export const generateMermaidDiagram = (
+  transitions: Transitions<string>,
+  options: FSMDiagramOptions = {},
+): string => {
+  const states = walk(transitions);
+  const all = flatten(states);
+  const idOf = toIds(all);
+
+  const render = (level: DiagramState[], indent: string): string => {
+    let code = level
+      .filter(({ path, name }) => idOf(path) !== name)
+      .map(({ path, name }) => `${indent}state "${escapeMermaid(name)}" as ${idOf(path)}\n`)
+      .join('');
+    for (const state of level) {
+      for (const { event, target } of state.edges) {
+        code += `${indent}${idOf(state.path)} --> ${idOf(target)}: ${escapeMermaid(event)}\n`;
+      }
+      if (state.final) {
+        code += `${indent}${idOf(state.path)} --> [*]\n`;
+      }
+      if (state.initial) {
+        code += `${indent}state ${idOf(state.path)} {\n`;
+        code += `${indent}    [*] --> ${idOf(state.initial)}\n`;
+        code += render(state.children, `${indent}    `);
+        code += `${indent}}\n`;
+      }
+    }
+    return code;
+  };
+
+  const visited = all.filter(({ path }) => isVisited(options, path)).map(({ path }) => idOf(path));
+  return [
+    'stateDiagram-v2\n',
+    options.direction ? `    direction ${options.direction}\n` : '',
+    render(states, '    '),
+    options.initialState ? `    [*] --> ${idOf(options.initialState)}\n` : '',
+    visited.length > 0 ? `    classDef visited stroke:#1e90ff,stroke-width:2px\n` : '',
+    visited.length > 0 ? `    class ${visited.join(',')} visited\n` : '',
+    options.currentState ? `    classDef current fill:#ffd700\n` : '',
+    options.currentState ? `    class ${idOf(options.currentState)} current\n` : '',
+  ].join('');
+};
+
+/**
+ * Escape text for double quoted string of DOT
+ */
+const quoteDot = (text: string) => `"${text.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * Generate Graphviz DOT diagram from transitions. Render it with `dot -Tsvg`
+ *
+ * @property transitions - states and transitions of FSM. Second param of useFSM
+ * @property options - initial state, current state, history path and direction
+ *
+ * Node ids are dotted paths. Nested states are rendered as clusters, transitions of compound states start and end at cluster border
+ * Final states have double border
+ *
+ * @example
+ *  generateDotDiagram({ idle: { typing: 'typing' }, typing: { canceling: 'idle' } }, { initialState: 'idle', direction: 'LR' });
+ *
+ * @return string - DOT code
+ *
+ * @version 0.2.0
+ */
+export const generateDotDiagram = (
+  transitions: Transitions<string>,
+  options: FSMDiagramOptions = {},
+): string => {
+  const states = walk(transitions);
+  const all = flatten(states);
+  const cluster = (path: string) => quoteDot(`cluster_${path}`);
+
+  const render = (level: DiagramState[], indent: string): string =>
+    level
+      .map((state) => {
+        if (state.initial) {
+          return [
+            `${indent}subgraph ${cluster(state.path)} {\n`,
+            `${indent}  label=${quoteDot(state.name)};\n`,
+            render(state.children, `${indent}  `),
+            `${indent}}\n`,
+          ].join('');
+        }
+        const attributes = [`label=${quoteDot(state.name)}`];
+        if (state.final) {
+          attributes.push('peripheries=2');
+        }
+        if (state.path === options.currentState) {
+          attributes.push('style="rounded,filled"', 'fillcolor="#ffd700"');
+        }
+        if (isVisited(options, state.path)) {
+          attributes.push('color="#1e90ff"', 'penwidth=2');
+        }
+        return `${indent}${quoteDot(state.path)} [${attributes.join(', ')}];\n`;
+      })
+      .join('');
+
+  const edges = all.flatMap((state) =>
+    state.edges.map((edge) => {
+      const attributes = [`label=${quoteDot(edge.event)}`];
+      const source = resolveInitial(transitions, edge.source);
+      const target = resolveInitial(transitions, edge.target);
+      if (source !== edge.source) {
+        attributes.push(`ltail=${cluster(edge.source)}`);
+      }
+      if (target !== edge.target) {
+        attributes.push(`lhead=${cluster(edge.target)}`);
+      }
+      if (isTraversed(options, edge)) {
+        attributes.push('color="#1e90ff"', 'penwidth=2');
+      }
+      return `  ${quoteDot(source)} -> ${quoteDot(target)} [${attributes.join(', ')}];\n`;
+    }),
+  );
+
+  return [
+    'digraph {\n',
+    options.direction ? `  rankdir=${options.direction};\n` : '',
+    all.some(({ initial }) => initial) ? '  compound=true;\n' : '',
+    '  node [shape=box, style=rounded];\n',
+    options.initialState
+      ? `  "[*]" [shape=point];\n  "[*]" -> ${quoteDot(resolveInitial(transitions, options.initialState))};\n`
+      : '',
+    render(states, '  '),
+    ...edges,
+    '}\n',
+  ].join('');
+};
+
+/**
+ * Escape text of PlantUML. Quotes are replaced with unicode escape
+ */
+const escapePlantUML = (text: string) => text.replace(/"/g, '<U+0022>');
+
+/**
+ * Generate PlantUML state diagram from transitions. You can pass result in https://www.plantuml.com/plantuml
+ *
+ * @property transitions - states and transitions of FSM. Second param of useFSM
+ * @property options - initial state, current state, history path and direction. PlantUML supports only LR and TB directions
+ *
+ * Nested states are rendered as composite states with their initial child. Final states get transition to [*] end marker
+ *
+ * @example
+ *  generatePlantUMLDiagram({ idle: { typing: 'typing' }, typing: { canceling: 'idle' } }, { currentState: 'typing' });
+ *
+ * @return string - PlantUML code
+ *
+ * @version 0.2.0
+ */
+export const generatePlantUMLDiagram = (
+  transitions: Transitions<string>,
+  options: FSMDiagramOptions = {},
+): string => {
+  const states = walk(transitions);
+  const idOf = toIds(flatten(states));
+
+  const render = (level: DiagramState[], indent: string): string =>
+    level
+      .map((state) => {
+        const color = state.path === options.currentState ? ' #ffd700' : '';
+        const labeled = idOf(state.path) !== state.name;
+        const declaration = labeled
+          ? `state "${escapePlantUML(state.name)}" as ${idOf(state.path)}`
+          : `state ${state.name}`;
+        const edges = state.edges.map((edge) => {
+          const arrow = isTraversed(options, edge) ? '-[#1e90ff,bold]->' : '-->';
+          return `${indent}${idOf(edge.source)} ${arrow} ${idOf(edge.target)} : ${escapePlantUML(edge.event)}\n`;
+        });
+        if (state.final) {
+          edges.push(`${indent}${idOf(state.path)} --> [*]\n`);
+        }
+        if (state.initial) {
+          return [
+            `${indent}${declaration}${color} {\n`,
+            `${indent}  [*] --> ${idOf(state.initial)}\n`,
+            render(state.children, `${indent}  `),
+            `${indent}}\n`,
+            ...edges,
+          ].join('');
+        }
+        return [labeled || color ? `${indent}${declaration}${color}\n` : '', ...edges].join('');
+      })
+      .join('');
+
+  return [
+    '@startuml\n',
+    options.direction === 'LR' || options.direction === 'RL' ? 'left to right direction\n' : '',
+    options.initialState ? `[*] --> ${idOf(options.initialState)}\n` : '',
+    render(states, ''),
+    '@enduml\n',
+  ].join('');
+};
+
+/**
+ * Escape text for XML attribute
+ */
+const escapeXML = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[char] as string,
+  );
+
+/**
+ * Edge of timer or invoke. Names are the same as events in history
+ */
+const isAutomatic = (event: string) =>
+  event === 'onDone' || event === 'onError' || /^after\(.*\)$/.test(event);
+
+/**
+ * Serialize transitions to SCXML document - https://www.w3.org/TR/scxml/
+ *
+ * @property transitions - states and transitions of FSM. Second param of useFSM
+ * @property options - initialState is written as initial of document. Highlight options are not part of SCXML and ignored
+ *
+ * State ids are dotted paths. Guards, assign and actions are functions and can't be serialized, only targets are written
+ * Final states are written as <final>. Final state with transitions, wildcard ones too, or child states is written as <state>: SCXML <final> can't have them
+ * Delayed transitions and transitions of invoke are omitted: after(delay), onDone and onError are not SCXML events, and timers and invoke are executable content
+ *
+ * @example
+ *  generateSCXML({ idle: { typing: 'typing' }, typing: { canceling: 'idle' } }, { initialState: 'idle' });
+ *
+ * @return string - SCXML document
+ *
+ * @version 0.2.0
+ */
+export const generateSCXML = (
+  transitions: Transitions<string>,
+  options: FSMDiagramOptions = {},
+): string => {
+  const render = (level: DiagramState[], indent: string): string =>
+    level
+      .map((state) => {
+        const initial = state.initial ? ` initial="${escapeXML(state.initial)}"` : '';
+        const content = [
+          ...state.edges
+            .filter(({ event }) => !isAutomatic(event))
+            .map(
+              ({ event, target }) =>
+                `${indent}  <transition event="${escapeXML(event)}" target="${escapeXML(target)}"/>\n`,
+            ),
+          render(state.children, `${indent}  `),
+        ].join('');
+        const element = state.final && !content ? 'final' : 'state';
+        return content
+          ? `${indent}<${element} id="${escapeXML(state.path)}"${initial}>\n${content}${indent}</${element}>\n`
+          : `${indent}<${element} id="${escapeXML(state.path)}"/>\n`;
+      })
+      .join('');
+
+  const initial = options.initialState ? ` initial="${escapeXML(options.initialState)}"` : '';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0"${initial}>\n`,
+    render(walk(transitions), '  '),
+    '</scxml>\n',
+  ].join('');
+};
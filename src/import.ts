@@ -0,0 +1,552 @@
+import { Regions, STATE_CONFIG_KEYS, Transitions, WILDCARD } from './machine';
+
+/**
+ * Imported machine. Pass initialState and transitions to useFSM or createMachine
+ * Parallel statechart is imported as parallel FSM: initialState is object of region states
+ *
+ * @property parallel - true for parallel FSM. Narrows type of initialState and transitions
+ * @property initialState - initial state of FSM. Dotted path when statechart starts in nested state
+ * @property transitions - map of states and transitions. Map of regions for parallel FSM
+ * @property context - initial context. Only XState config has it
+ *
+ * @example
+ *   const definition = fromSCXML(xml);
+ *   if (!definition.parallel) {
+ *     const machine = createMachine(definition.initialState, definition.transitions);
+ *   }
+ *
+ * @version 0.2.0
+ */
+export type FSMDefinition =
+  | { parallel: false; initialState: string; transitions: Transitions<string>; context?: unknown }
+  | {
+      parallel: true;
+      initialState: Record<string, string>;
+      transitions: Regions;
+      context?: unknown;
+    };
+
+/**
+ * Statechart uses features FSM doesn't support. Nothing is imported
+ *
+ * @property nodes - description of every unsupported node, like `<onentry> in state idle`
+ *
+ * @version 0.2.0
+ */
+export class FSMImportError extends Error {
+  nodes: string[];
+
+  constructor(format: string, nodes: string[]) {
+    super(`Unsupported ${format} features:\n${nodes.map((node) => `  - ${node}`).join('\n')}`);
+    this.name = 'FSMImportError';
+    this.nodes = nodes;
+  }
+}
+
+/**
+ * Transition of imported state. Target is dotted path from root of statechart
+ */
+type DraftEdge = { event: string; target: string };
+
+/**
+ * State of statechart before conversion to transitions map. Paths are dotted, from root of statechart
+ */
+type DraftState = {
+  path: string;
+  initial?: string;
+  edges: DraftEdge[];
+  after: DraftEdge[];
+  children: DraftState[];
+  final?: boolean;
+};
+
+/**
+ * Statechart before conversion. Regions are top level states of parallel statechart
+ */
+type DraftMachine = {
+  initial: string;
+  parallel: boolean;
+  states: DraftState[];
+  context?: unknown;
+};
+
+const nameOf = (path: string) => path.split('.').pop() as string;
+
+const parentOf = (path: string) => path.split('.').slice(0, -1).join('.');
+
+const flatten = (states: DraftState[]): DraftState[] =>
+  states.flatMap((state) => [state, ...flatten(state.children)]);
+
+/**
+ * Check names which can't be keys of transitions map
+ * after(delay) is event of delayed transitions in history, transition with the same name can't be told apart from timer
+ */
+const checkNames = (states: DraftState[], issues: string[]) => {
+  for (const state of flatten(states)) {
+    if (STATE_CONFIG_KEYS.includes(nameOf(state.path)) || nameOf(state.path) === WILDCARD) {
+      issues.push(`state ${state.path} has reserved name`);
+    }
+    for (const { event } of state.edges) {
+      if (STATE_CONFIG_KEYS.includes(event) || /^after\(.*\)$/.test(event)) {
+        issues.push(`event ${event} in state ${state.path} has reserved name`);
+      }
+    }
+  }
+};
+
+/**
+ * Convert draft to transitions map. Targets are written as sibling names when possible, otherwise as dotted paths
+ * Throws FSMImportError with all unsupported nodes found by parser and converter
+ */
+const toDefinition = (format: string, machine: DraftMachine, issues: string[]): FSMDefinition => {
+  const paths = new Set(flatten(machine.states).map(({ path }) => path));
+  const regionOf = (path: string) => (machine.parallel ? path.split('.')[0] : '');
+  const local = (path: string) => (machine.parallel ? path.split('.').slice(1).join('.') : path);
+
+  const toTarget = (source: string, { event, target }: DraftEdge) => {
+    if (!paths.has(target)) {
+      return target;
+    }
+    if (regionOf(source) !== regionOf(target)) {
+      issues.push(`transition ${event} in state ${source} targets other region`);
+    }
+    if (parentOf(source) === parentOf(target)) {
+      return nameOf(target);
+    }
+    const sibling = [parentOf(source), local(target)].filter(Boolean).join('.');
+    if (sibling !== target && paths.has(sibling)) {
+      issues.push(`target ${target} of transition ${event} in state ${source} is ambiguous`);
+    }
+    return local(target);
+  };
+
+  const toMap = (states: DraftState[]): Transitions<string> =>
+    Object.fromEntries(
+      states.map((state) => [
+        nameOf(state.path),
+        {
+          ...Object.fromEntries(
+            state.edges.map((edge) => [edge.event, toTarget(state.path, edge)]),
+          ),
+          ...(state.after.length > 0 && {
+            after: Object.fromEntries(
+              state.after.map((edge) => [edge.event, toTarget(state.path, edge)]),
+            ),
+          }),
+          ...(state.children.length > 0 && {
+            initial: state.initial,
+            states: toMap(state.children),
+          }),
+          ...(state.final && { final: true }),
+        },
+      ]),
+    );
+
+  checkNames(machine.states, issues);
+  const definition: FSMDefinition = machine.parallel
+    ? {
+        parallel: true,
+        initialState: Object.fromEntries(
+          machine.states.map((region) => {
+            if (region.edges.length > 0 || region.after.length > 0) {
+              issues.push(`transitions of region ${region.path}`);
+            }
+            if (region.children.length === 0) {
+              issues.push(`region ${region.path} without states`);
+            }
+            return [region.path, region.initial as string];
+          }),
+        ),
+        transitions: Object.fromEntries(
+          machine.states.map((region) => [region.path, toMap(region.children)]),
+        ),
+      }
+    : { parallel: false, initialState: machine.initial, transitions: toMap(machine.states) };
+
+  if (issues.length > 0) {
+    throw new FSMImportError(format, issues);
+  }
+  return machine.context === undefined ? definition : { ...definition, context: machine.context };
+};
+
+/**
+ * Element of parsed XML document
+ */
+type XMLElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+};
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|[^<]+/g;
+
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeXML = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) =>
+    code.startsWith('#')
+      ? String.fromCodePoint(
+          code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)),
+        )
+      : (XML_ENTITIES[code] ?? entity),
+  );
+
+/**
+ * Minimal XML parser. Elements and attributes only: text, comments and declarations are skipped
+ */
+const parseXML = (xml: string): XMLElement[] => {
+  const root: XMLElement = { name: '', attributes: {}, children: [] };
+  const stack = [root];
+
+  for (const [, closing, name, attributes, selfClosing] of xml.matchAll(XML_TOKEN)) {
+    if (!name) {
+      continue;
+    }
+    const parent = stack[stack.length - 1];
+    if (closing) {
+      if (parent.name !== name) {
+        throw new SyntaxError(`Invalid XML: unexpected </${name}>`);
+      }
+      stack.pop();
+      continue;
+    }
+    const element: XMLElement = {
+      name,
+      attributes: Object.fromEntries(
+        [...attributes.matchAll(XML_ATTRIBUTE)].map(([, key, double, single]) => [
+          key,
+          decodeXML(double ?? single),
+        ]),
+      ),
+      children: [],
+    };
+    parent.children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new SyntaxError(`Invalid XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+  return root.children;
+};
+
+const SCXML_STATES = ['state', 'final', 'parallel'];
+
+/**
+ * Import machine from SCXML document
+ * Supported: <state>, <final>, <transition> with event and single target, initial attribute and <initial> element
+ * <parallel> is supported as the only top level state: its child states become regions of parallel FSM
+ * Executable content, conditions, data model, history and invoke are not supported
+ * <final> can't have transitions and child states, like in SCXML
+ * Events named like after(delay), onDone and onError are rejected: they are reserved for timers and invoke
+ *
+ * @property xml - SCXML document
+ *
+ * @example
+ *   fromSCXML(`
+ *     <scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="idle">
+ *       <state id="idle"><transition event="typing" target="typing"/></state>
+ *       <state id="typing"><transition event="canceling" target="idle"/></state>
+ *     </scxml>
+ *   `);
+ *   // { parallel: false, initialState: 'idle', transitions: { idle: { typing: 'typing' }, typing: { canceling: 'idle' } } }
+ *
+ * @throws SyntaxError when document is not well-formed or root element is not <scxml>
+ * @throws FSMImportError listing every unsupported node
+ *
+ * @return FSMDefinition - initial state and transitions map
+ *
+ * @version 0.2.0
+ */
+export const fromSCXML = (xml: string): FSMDefinition => {
+  const [scxml, ...rest] = parseXML(xml);
+  if (scxml?.name !== 'scxml' || rest.length > 0) {
+    throw new SyntaxError('Invalid SCXML: root element must be single <scxml>');
+  }
+
+  const issues: string[] = [];
+  const paths = new Map<string, string>();
+  const unresolved: [DraftEdge, string][] = [];
+  const initials: [DraftState, string][] = [];
+  const readTransition = (element: XMLElement, path: string, state: DraftState) => {
+    const { event, target, cond, type } = element.attributes;
+    const label = event ? `transition ${event} in state ${path}` : `transition in state ${path}`;
+    if (!event) {
+      issues.push(`eventless ${label}`);
+    }
+    if (!target) {
+      issues.push(`targetless ${label}`);
+    }
+    if (target?.trim().includes(' ')) {
+      issues.push(`multiple targets of ${label}`);
+    }
+    if (cond) {
+      issues.push(`cond of ${label}`);
+    }
+    if (type === 'internal') {
+      issues.push(`internal ${label}`);
+    }
+    element.children.forEach(({ name }) => issues.push(`<${name}> in ${label}`));
+
+    for (const name of event?.split(/\s+/).filter(Boolean) ?? []) {
+      if (name.includes('*')) {
+        issues.push(`event descriptor ${name} in state ${path}`);
+      } else if (state.edges.some((edge) => edge.event === name)) {
+        issues.push(`duplicate transition ${name} in state ${path}`);
+      } else if (target) {
+        const edge = { event: name, target };
+        state.edges.push(edge);
+        unresolved.push([edge, path]);
+      }
+    }
+  };
+
+  const readState = (element: XMLElement, parent: string): DraftState => {
+    const { id = '' } = element.attributes;
+    const path = [parent, id].filter(Boolean).join('.');
+    const state: DraftState = {
+      path,
+      edges: [],
+      after: [],
+      children: [],
+      final: element.name === 'final' || undefined,
+    };
+    if (!id) {
+      issues.push(`<${element.name}> without id in ${parent ? `state ${parent}` : '<scxml>'}`);
+    } else if (id.includes('.')) {
+      issues.push(`dot in id of state ${id}`);
+    } else if (paths.has(id)) {
+      issues.push(`duplicate id ${id}`);
+    }
+    paths.set(id, path);
+    if (element.name === 'parallel') {
+      issues.push(`<parallel> ${path} not as the only top level state`);
+    }
+
+    for (const child of element.children) {
+      if (
+        element.name === 'final' &&
+        (child.name === 'transition' || SCXML_STATES.includes(child.name))
+      ) {
+        issues.push(`<${child.name}> in <final> ${path}`);
+      } else if (SCXML_STATES.includes(child.name)) {
+        state.children.push(readState(child, path));
+      } else if (child.name === 'transition') {
+        readTransition(child, path, state);
+      } else if (child.name === 'initial') {
+        child.children.forEach(({ attributes }) => initials.push([state, attributes.target]));
+      } else {
+        issues.push(`<${child.name}> in state ${path}`);
+      }
+    }
+    if (element.attributes.initial) {
+      initials.push([state, element.attributes.initial]);
+    }
+    state.initial = state.children[0] && nameOf(state.children[0].path);
+    return state;
+  };
+
+  const [first] = scxml.children.filter(({ name }) => SCXML_STATES.includes(name));
+  const parallel =
+    first?.name === 'parallel' &&
+    scxml.children.filter(({ name }) => SCXML_STATES.includes(name)).length === 1;
+  for (const child of scxml.children.filter(({ name }) => !SCXML_STATES.includes(name))) {
+    issues.push(`<${child.name}> in <scxml>`);
+  }
+  const states = (parallel ? first.children : scxml.children).flatMap((child) => {
+    if (parallel ? child.name === 'state' : SCXML_STATES.includes(child.name)) {
+      return [readState(child, '')];
+    }
+    if (parallel) {
+      issues.push(`<${child.name}> in <parallel> ${first.attributes.id}`);
+    }
+    return [];
+  });
+
+  for (const [edge, source] of unresolved) {
+    const target = paths.get(edge.target);
+    if (target === undefined) {
+      issues.push(`unknown target ${edge.target} of transition ${edge.event} in state ${source}`);
+    }
+    edge.target = target ?? edge.target;
+  }
+  for (const [state, id] of initials) {
+    const target = paths.get(id);
+    if (state.children.some(({ path }) => path === target)) {
+      state.initial = nameOf(target as string);
+    } else {
+      issues.push(`initial ${id} of state ${state.path} is not its child`);
+    }
+  }
+
+  const initial = paths.get(scxml.attributes.initial ?? first?.attributes.id ?? '');
+  if (!parallel && initial === undefined) {
+    issues.push(`initial ${scxml.attributes.initial ?? ''} of <scxml> is not a state`);
+  }
+  return toDefinition('SCXML', { initial: initial ?? '', parallel, states }, issues);
+};
+
+/**
+ * State node of XState config. Only keys read by importer are typed
+ */
+type XStateNode = {
+  [key: string]: unknown;
+  id?: string;
+  initial?: string;
+  type?: string;
+  states?: Record<string, XStateNode>;
+  on?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+};
+
+/**
+ * Keys without effect on behavior of machine
+ */
+const XSTATE_IGNORED_KEYS = ['id', 'description', 'meta', 'tags'];
+
+const XSTATE_STATE_KEYS = ['initial', 'type', 'states', 'on', 'after', ...XSTATE_IGNORED_KEYS];
+
+const XSTATE_MACHINE_KEYS = [
+  'initial',
+  'type',
+  'states',
+  'context',
+  'version',
+  ...XSTATE_IGNORED_KEYS,
+];
+
+/**
+ * Import machine from XState machine config (JSON or object)
+ * Supported: states, initial, on and after with single target, final states, parallel machine at the root
+ * Targets may be sibling keys, child keys starting with dot and #id references
+ * Actions, guards, invoke, always, history and nested parallel states are not supported
+ *
+ * @property config - XState machine config. String is parsed as JSON
+ *
+ * @example
+ *   fromXStateConfig({
+ *     id: 'form',
+ *     initial: 'idle',
+ *     context: { attempts: 0 },
+ *     states: {
+ *       idle: { on: { typing: 'typing' } },
+ *       typing: { on: { canceling: { target: 'idle' } }, after: { 5000: 'idle' } },
+ *     },
+ *   });
+ *   // { parallel: false, initialState: 'idle', transitions: { idle: { typing: 'typing' }, typing: { canceling: 'idle', after: { 5000: 'idle' } } }, context: { attempts: 0 } }
+ *
+ * @throws SyntaxError when string is not valid JSON
+ * @throws FSMImportError listing every unsupported node
+ *
+ * @return FSMDefinition - initial state, transitions map and context
+ *
+ * @version 0.2.0
+ */
+export const fromXStateConfig = (config: string | object): FSMDefinition => {
+  const machine = (typeof config === 'string' ? JSON.parse(config) : config) as XStateNode;
+  const issues: string[] = [];
+  const ids = new Map<string, string>([[machine.id ?? '', '']]);
+  const unresolved: [DraftEdge, string][] = [];
+  const parallel = machine.type === 'parallel';
+
+  const readEdges = (path: string, kind: 'transition' | 'after', edges: object = {}) =>
+    Object.entries(edges).flatMap(([event, value]): DraftEdge[] => {
+      const label = `${kind} ${event} in state ${path}`;
+      const configs = (Array.isArray(value) ? value : [value]).map((item) =>
+        typeof item === 'string' ? { target: item } : (item ?? {}),
+      ) as Record<string, unknown>[];
+      if (event === '' || event === '*') {
+        issues.push(`${event ? 'wildcard' : 'eventless'} transition in state ${path}`);
+      }
+      if (kind === 'after' && !/^\d+$/.test(event)) {
+        issues.push(`named delay ${label}`);
+      }
+      if (configs.length !== 1) {
+        issues.push(`${configs.length} targets of ${label}`);
+        return [];
+      }
+
+      const [{ target, ...rest }] = configs;
+      Object.keys(rest)
+        .filter((key) => key !== 'description')
+        .forEach((key) => issues.push(`${key} of ${label}`));
+      const targets = Array.isArray(target) ? target : [target];
+      if (targets.length !== 1 || typeof targets[0] !== 'string') {
+        issues.push(`${targets[0] === undefined ? 'targetless' : 'multiple targets of'} ${label}`);
+        return [];
+      }
+      const edge = { event, target: targets[0] };
+      unresolved.push([edge, path]);
+      return [edge];
+    });
+
+  const readState = (node: XStateNode, key: string, parent: string): DraftState => {
+    const path = [parent, key].filter(Boolean).join('.');
+    if (key.includes('.')) {
+      issues.push(`dot in key of state ${path}`);
+    }
+    if (node.id) {
+      ids.set(node.id, path);
+    }
+    Object.keys(node)
+      .filter((name) => !XSTATE_STATE_KEYS.includes(name))
+      .forEach((name) => issues.push(`${name} in state ${path}`));
+    if (node.type === 'parallel' || node.type === 'history') {
+      issues.push(`${node.type} state ${path}`);
+    }
+
+    const children = Object.entries(node.states ?? {}).map(([name, child]) =>
+      readState(child, name, path),
+    );
+    const initial = node.initial ?? (children[0] && nameOf(children[0].path));
+    if (children.length > 0 && !node.states?.[initial as string]) {
+      issues.push(`initial ${initial} of state ${path} is not its child`);
+    }
+    return {
+      path,
+      initial: children.length > 0 ? initial : undefined,
+      edges: readEdges(path, 'transition', node.on),
+      after: readEdges(path, 'after', node.after),
+      children,
+      final: node.type === 'final' || undefined,
+    };
+  };
+
+  Object.keys(machine)
+    .filter((key) => !XSTATE_MACHINE_KEYS.includes(key))
+    .forEach((key) => issues.push(`${key} in machine ${machine.id ?? ''}`.trim()));
+  const states = Object.entries(machine.states ?? {}).map(([name, node]) =>
+    readState(node, name, ''),
+  );
+  const paths = new Set(flatten(states).map(({ path }) => path));
+
+  for (const [edge, source] of unresolved) {
+    const [id, ...rest] = edge.target.slice(1).split('.');
+    const target = edge.target.startsWith('#')
+      ? [ids.get(id), ...rest].filter(Boolean).join('.')
+      : edge.target.startsWith('.')
+        ? `${source}${edge.target}`
+        : [parentOf(source), edge.target].filter(Boolean).join('.');
+    if (!paths.has(target) || (edge.target.startsWith('#') && !ids.has(id))) {
+      issues.push(`unknown target ${edge.target} of transition ${edge.event} in state ${source}`);
+    }
+    edge.target = target;
+  }
+
+  const initial = machine.initial ?? Object.keys(machine.states ?? {})[0] ?? '';
+  if (!parallel && !paths.has(initial)) {
+    issues.push(`initial ${initial} of machine is not a state`);
+  }
+  return toDefinition('XState', { initial, parallel, states, context: machine.context }, issues);
+};
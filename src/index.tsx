@@ -1,142 +1,130 @@
-import { useReducer, useCallback, useContext, createContext, useDebugValue } from 'react';
+import {
+  Children,
+  isValidElement,
+  useRef,
+  useMemo,
+  useState,
+  useEffect,
+  useContext,
+  createContext,
+  useDebugValue,
+  useSyncExternalStore,
+} from 'react';
+import {
+  createMachine,
+  defaultClock,
+  FSMClock,
+  FSMConfig,
+  FSMMachine,
+  FSMState,
+  ParallelInitialState,
+  ParallelState,
+  ParallelTransitions,
+  Regions,
+  StatePath,
+  Transitions,
+  ValidRegions,
+  UntypedMachine,
+  ValidTransitions,
+} from './machine';
+import {
+  createFSMStore,
+  createUntypedStore,
+  FSMStore,
+  FSMStoreConfig,
+  FSMStores,
+  UntypedStore,
+} from './store';
+import { FSMInspector } from './devtools';
+import { createFSMMetrics, FSMMetrics, FSMMetricsSummary } from './metrics';
 
-/**
- * Type for State Machine transitions
- * @typeParam TState - Constraints. Array of strings. List of all possible States
- * @typeParam TTransition - Constraints. Array of strings. List of all possible Transitions in all States
- * @Example { state1: { transition1: 'state1' }, state2: { transition2: 'state2' } }
- * @Example { state1: { transition1: 'state1' }, state2: { transition2: 'state3' } } // Error! state3 not exists
- * @Example { state1: { transition1: 'state1' }, state2: { transition2: 'state2' }, state3: {} } // Error! state3 not used
- *
- * @version 0.1.0
- */
-type Transitions<TState extends string, TTransition extends string> = {
-  [K in TState]: {
-    [M in TTransition]?: TState;
-  };
-};
+export type {
+  FSMClock,
+  FSMConfig,
+  FSMEvent,
+  FSMHistoryEntry,
+  FSMInvalidTransition,
+  FSMLogger,
+  FSMMachine,
+  FSMMachineConfig,
+  FSMMiddleware,
+  FSMMiddlewareTransition,
+  FSMState,
+  FSMTransitionRecord,
+  NodePath,
+  ParallelInitialState,
+  ParallelState,
+  ParallelTransitions,
+  Regions,
+  StateConfig,
+  StateNode,
+  StatePath,
+  StateValue,
+  TransitionConfig,
+  TransitionInfo,
+  TransitionName,
+  Transitions,
+} from './machine';
 
 /**
- * Internal logger. Used to log messages and warnings
- * log - for debug level
- * warn - debug and info level
- *
- * console as default logger
+ * Context for State Machine
  *
- * @version 0.1.0
- */
-export type FSMLogger = {
-  log: (message: string) => void;
-  warn: (message: string) => void;
-};
-
-/**
  * @property logLevel - level of logs. Values: 'none' | 'info' | 'debug'. Default: 'none'
  * @property maxHistoryLength - Length of history array. FIFO. Default: Infinity
  * @property logger - logger provider that implement FSMLogger type. console default logger
+ * @property onInvalidTransition - policy for invalid transition, undo and redo of empty history and invalid jumpTo. Default: 'warn'
+ * @property middleware - functions around every transition and undo, in order. Default: []
  *
  * @version 0.1.0
  */
-export type FSMConfig = {
-  /**
-   * @default none
-   *
-   * none = disable any log
-   * info - warns only. Possible when call invalid transition or undo empty history
-   * debug - show all logs. Warns and transitions between states
-   *
-   * @version 0.1.0
-   */
-  logLevel?: 'none' | 'info' | 'debug';
-
-  /**
-   * @default Infinity
-   *
-   * 0 or less is equal to disable history
-   *
-   * @version 0.1.0
-   */
-  maxHistoryLength?: number;
-
-  /**
-   * @default console
-   *
-   * logger provider
-   *
-   * @version 0.1.0
-   */
-  logger?: FSMLogger;
-};
+const FSMContext = createContext<FSMConfig>({
+  logLevel: 'none',
+  maxHistoryLength: Infinity,
+  logger: console,
+});
 
 /**
- * @property currentState - current state of FSM
- * @property history - history of states. FIFO
+ * Named stores provided by FSMProvider. Nested providers add their stores to stores of parent
  *
- * Type of State Machine react states
- *
- * @version 0.1.0
+ * @version 0.2.0
  */
-type FSMState<TState extends string> = {
-  currentState: TState;
-  history: TState[];
-};
+const FSMStoresContext = createContext<FSMStores>({});
 
 /**
+ * Inspector of FSMProvider. Machines under provider are registered in it on mount
  *
- * Action type for State Machine.
- * TRANSITION - when need to change state
- * UNDO - when need to undo transition by history
- *
- * @version 0.1.0
+ * @version 0.2.0
  */
-type FSMAction<TState extends string> = { type: 'TRANSITION'; to: TState } | { type: 'UNDO' };
+const FSMInspectorContext = createContext<FSMInspector | undefined>(undefined);
 
 /**
- * @property currentState - current state of FSM
- * @property history - history of states. FIFO
+ * Result of useFSM. Current snapshot and methods of machine
  *
- * Reducer of actions for State Machine
- * Change states and save/cut/undo history
+ * @property isDone - true if current state is final
  *
- * @version 0.1.0
+ * @version 0.2.0
  */
-const FSMReducer = <TState extends string>(
-  state: FSMState<TState>,
-  action: FSMAction<TState>,
-  maxHistoryLength: number = Infinity,
-): FSMState<TState> => {
-  switch (action.type) {
-    case 'TRANSITION':
-      return {
-        currentState: action.to,
-        history:
-          maxHistoryLength > 0
-            ? state.history.concat(state.currentState).slice(-maxHistoryLength)
-            : [],
-      };
-    case 'UNDO':
-      return {
-        currentState: state.history[state.history.length - 1],
-        history: state.history.slice(0, -1),
-      };
-  }
+export type UseFSMResult<TState, TTransitionMap, TContext = undefined> = Pick<
+  FSMMachine<TState, TTransitionMap, TContext>,
+  | 'transition'
+  | 'send'
+  | 'undo'
+  | 'redo'
+  | 'jumpTo'
+  | 'matches'
+  | 'whenDone'
+  | 'availableTransitions'
+  | 'getHistory'
+  | 'getFuture'
+  | 'getTransitionLog'
+> & {
+  currentState: TState;
+  context: TContext;
+  canUndo: boolean;
+  canRedo: boolean;
+  isDone: boolean;
 };
 
-/**
- * Context for State Machine
- *
- * @property logLevel - level of logs. Values: 'none' | 'info' | 'debug'. Default: 'none'
- * @property maxHistoryLength - Length of history array. FIFO. Default: Infinity
- * @property logger - logger provider that implement FSMLogger type. console default logger
- *
- * @version 0.1.0
- */
-const FSMContext = createContext<FSMConfig>({
-  logLevel: 'none',
-  maxHistoryLength: Infinity,
-  logger: console,
-});
-
 /**
  * Hook for create and use Finite State Machine
  * Documentation - https://github.com/UnknownHero/fsm-hook/blob/main/README.md
@@ -146,7 +134,14 @@ const FSMContext = createContext<FSMConfig>({
  *
  * @property initialState - initial state of FSM. One of state in transitions (second property)
  * @property transitions - map of states and transitions. { "state": { "transition": "otherState" }, "otherState": {} }
- * @property config - direct configuration for FSM. If not set, use global configuration or FSMContext
+ * @property config - direct configuration for FSM and initial context. If not set, use global configuration or FSMContext
+ *
+ * Thin useSyncExternalStore wrapper over createMachine. Machine is created once on mount
+ * Transitions map, logLevel, logger, maxHistoryLength, onInvalidTransition, middleware and onDone follow last render
+ * Pass object of region states as initialState and map of regions as transitions for parallel FSM
+ * On debug logLevel diagnostics of analyzeMachine are logged on mount
+ * Actions (onEntry, onExit, onTransition) and onDone of config run after React commits the new state
+ * transition called from actions is queued and returns true, use onInvalidTransition to catch rejected ones
  *
  * @example
  *     const {result} = renderHook(() => useFSM(
@@ -162,122 +157,335 @@ const FSMContext = createContext<FSMConfig>({
  *
  * @version 0.1.0
  */
-const useFSM = <TState extends string, TTransition extends string, TTransitionMap>(
-  initialState: TState,
-  transitions: TTransitionMap & Transitions<TState, TTransition>,
-  config?: FSMConfig,
-) => {
+function useFSM<TState extends string, TTransitionMap, TContext = undefined>(
+  initialState: NoInfer<Exclude<TState, '*'>>,
+  transitions: TTransitionMap &
+    Transitions<TState, TContext> &
+    ValidTransitions<TTransitionMap, NoInfer<TState>, NoInfer<TContext>>,
+  config?: FSMStoreConfig<TContext>,
+): UseFSMResult<StatePath<TTransitionMap>, TTransitionMap, TContext>;
+function useFSM<TRegions, TContext = undefined>(
+  initialState: NoInfer<ParallelInitialState<TRegions>>,
+  transitions: TRegions & Regions<TContext> & ValidRegions<NoInfer<TRegions>, NoInfer<TContext>>,
+  config?: FSMStoreConfig<TContext>,
+): UseFSMResult<ParallelState<TRegions>, ParallelTransitions<TRegions>, TContext>;
+function useFSM<TContext = undefined>(
+  initialState: string | Record<string, string>,
+  transitions: object,
+  config?: FSMStoreConfig<TContext>,
+): UseFSMResult<string | Record<string, string>, Record<string, object>, TContext> {
   const globalConfig = useContext(FSMContext);
-  const mergedConfig = { ...globalConfig, ...config };
+  const inspector = useContext(FSMInspectorContext);
+  const mergedConfig = {
+    ...globalConfig,
+    ...config,
+    middleware: [...(globalConfig.middleware ?? []), ...(config?.middleware ?? [])],
+  };
+  const configRef = useRef(mergedConfig);
+  const transitionsRef = useRef(transitions);
+  const [machine] = useState(() =>
+    createUntypedStore(initialState, toLiveTransitions(transitionsRef), toLiveConfig(configRef)),
+  );
+  const state = useSyncExternalStore(machine.subscribe, machine.getSnapshot, machine.getSnapshot);
+
+  useEffect(() => {
+    configRef.current = mergedConfig;
+    transitionsRef.current = transitions;
+  });
+
+  useEffect(() => {
+    machine.flush();
+  }, [machine, state]);
+
+  useEffect(() => machine.stop, [machine]);
+
+  useEffect(() => inspector?.register(machine), [inspector, machine]);
+
+  useDebugValue(state.currentState);
+
+  return toResult(machine, state);
+}
+
+/**
+ * Config of useFSM machine. Options of FSMConfig are read from config of last render
+ * Initial context, persist, clock, id, metrics and recorder are read on mount
+ */
+const toLiveConfig = <TContext,>(configRef: {
+  current: FSMStoreConfig<TContext>;
+}): FSMStoreConfig<TContext> & { deferActions: boolean } => ({
+  ...configRef.current,
+  deferActions: true,
+  get logLevel() {
+    return configRef.current.logLevel;
+  },
+  get maxHistoryLength() {
+    return configRef.current.maxHistoryLength;
+  },
+  get logger() {
+    return configRef.current.logger;
+  },
+  get onInvalidTransition() {
+    return configRef.current.onInvalidTransition;
+  },
+  get middleware() {
+    return configRef.current.middleware;
+  },
+  get onDone() {
+    return configRef.current.onDone;
+  },
+});
 
-  const [state, dispatch] = useReducer(
-    (state: FSMState<TState>, action: FSMAction<TState>) =>
-      FSMReducer(state, action, mergedConfig.maxHistoryLength),
+/**
+ * Transitions map of useFSM machine. States are read from transitions of last render, so guards, assign and actions see current props
+ */
+const toLiveTransitions = (transitionsRef: { current: object }): object =>
+  new Proxy(
+    {},
     {
-      currentState: initialState,
-      history: [],
+      get: (_, key) => Reflect.get(transitionsRef.current, key),
+      has: (_, key) => Reflect.has(transitionsRef.current, key),
+      ownKeys: () => Reflect.ownKeys(transitionsRef.current),
+      getOwnPropertyDescriptor: (_, key) =>
+        Reflect.getOwnPropertyDescriptor(transitionsRef.current, key),
     },
   );
 
-  const logger = mergedConfig.logger || console;
-
-  /**
-   * @typeParam TPredicatedState - predicated current state. Help to show only available transitions. If not pass, it will show all transitions of all states.
-   *
-   * Transition to another state
-   * if pass Generic with predicated (because currentState is runtime value) current state, then will show only available transitions
-   */
-  const transition = useCallback(
-    <TPredicatedState extends keyof TTransitionMap>(
-      to: TPredicatedState extends keyof TTransitionMap
-        ? keyof TTransitionMap[TPredicatedState]
-        : keyof (typeof transitions)[TState],
-      callback?: (newState: TState) => void,
-    ) => {
-      if (transitions[state.currentState][to as unknown as TTransition]) {
-        if (mergedConfig.logLevel === 'debug') {
-          logger.log(`Transitioning from ${state.currentState} to ${to.toString()}`);
-        }
+/**
+ * Build result of useFSM and useFSMStore from machine and its snapshot
+ */
+const toResult = <TContext,>(
+  machine: UntypedMachine<TContext>,
+  state: FSMState<string | Record<string, string>, TContext>,
+): UseFSMResult<string | Record<string, string>, Record<string, object>, TContext> => {
+  return {
+    currentState: state.currentState,
+    context: state.context,
+    transition: machine.transition,
+    send: machine.send,
+    undo: machine.undo,
+    redo: machine.redo,
+    jumpTo: machine.jumpTo,
+    matches: machine.matches,
+    canUndo: state.history.length > 0,
+    canRedo: state.future.length > 0,
+    isDone: machine.isDone(),
+    whenDone: machine.whenDone,
+    availableTransitions: machine.availableTransitions,
+    getHistory: machine.getHistory,
+    getFuture: machine.getFuture,
+    getTransitionLog: machine.getTransitionLog,
+  };
+};
 
-        dispatch({
-          type: 'TRANSITION',
-          to: transitions[state.currentState][to as unknown as TTransition] as TState,
-        });
-        if (callback) {
-          const newState = FSMReducer(state, {
-            type: 'TRANSITION',
-            to: transitions[state.currentState][to as unknown as TTransition] as TState,
-          });
-          callback(newState.currentState);
-        }
-      } else {
-        if (mergedConfig.logLevel !== 'none') {
-          logger.warn(`Invalid transition from ${state.currentState} to ${to.toString()}`);
-        }
-      }
-    },
-    [state.currentState, transitions, mergedConfig.logLevel, logger],
+/**
+ * Result of useFSMStore for store type. Used to type named stores. Untyped result for untyped store
+ *
+ * @example useFSMStore<typeof checkoutStore>('checkout')
+ *
+ * @version 0.2.0
+ */
+export type UseFSMStoreResult<TStore> =
+  TStore extends FSMStore<infer TState, infer TTransitionMap, infer TContext>
+    ? UseFSMResult<TState, TTransitionMap, TContext>
+    : UseFSMResult<string | Record<string, string>, Record<string, object>, unknown>;
+
+/**
+ * Get store by itself or by name from FSMProvider
+ */
+const useStore = (store: object | string) => {
+  const stores = useContext(FSMStoresContext);
+  const inspector = useContext(FSMInspectorContext);
+  const machine = (typeof store === 'string' ? stores[store] : store) as UntypedStore<unknown>;
+
+  useEffect(
+    () => inspector?.register(machine, typeof store === 'string' ? store : undefined),
+    [inspector, machine, store],
   );
 
-  /**
-   * undo one step in history
-   */
-  const undo = useCallback(() => {
-    if (state.history.length > 0) {
-      if (mergedConfig.logLevel === 'debug') {
-        logger.log(
-          `Undoing from ${state.currentState} to ${state.history[state.history.length - 1]}`,
-        );
-      }
-      dispatch({ type: 'UNDO' });
-    } else {
-      if (mergedConfig.logLevel !== 'none') {
-        logger.warn('No history to undo');
-      }
-    }
-  }, [state.currentState, state.history, mergedConfig.logLevel, logger]);
-
-  /**
-   * Get available transitions for current state
-   * @return string[] - list of available transitions for current state
-   */
-  const availableTransitions = useCallback(() => {
-    return Object.keys(transitions[state.currentState]);
-  }, [state.currentState, transitions]);
-
-  /**
-   * Get history of current states
-   * @return string[] - list of states in history
-   */
-  const getHistory = useCallback(() => {
-    return state.history;
-  }, [state.history]);
+  if (!machine) {
+    throw new Error(`FSM store ${store} is not provided`);
+  }
+  return machine;
+};
+
+/**
+ * Hook for use shared machine of createFSMStore. All components using the store see the same state
+ *
+ * @property store - store of createFSMStore or name of store provided by FSMProvider
+ *
+ * Component re-renders on every change of store. Use useFSMSelector to re-render only on change of selected slice
+ *
+ * @example
+ *   const { currentState, transition, undo } = useFSMStore(checkoutStore);
+ *
+ * @example
+ *   const { currentState } = useFSMStore<typeof checkoutStore>('checkout');
+ *
+ * @version 0.2.0
+ */
+function useFSMStore<TState, TTransitionMap, TContext>(
+  store: FSMStore<TState, TTransitionMap, TContext>,
+): UseFSMResult<TState, TTransitionMap, TContext>;
+function useFSMStore<TStore = UntypedStore<unknown>>(name: string): UseFSMStoreResult<TStore>;
+function useFSMStore(store: object | string): object {
+  const machine = useStore(store);
+  const state = useSyncExternalStore(machine.subscribe, machine.getSnapshot, machine.getSnapshot);
 
   useDebugValue(state.currentState);
 
-  return {
-    currentState: state.currentState,
-    transition,
-    undo,
-    availableTransitions,
-    getHistory,
+  return toResult(machine, state);
+}
+
+/**
+ * Hook for read slice of shared machine. Component re-renders only when selected slice changes
+ *
+ * @property store - store of createFSMStore or name of store provided by FSMProvider
+ * @property selector - select slice of snapshot: currentState, context, history and future. Selector of last render is used
+ * @property isEqual - compare previous and next slice. Default: Object.is. Pass shallow compare when selector returns new object
+ *
+ * @example
+ *   const step = useFSMSelector(checkoutStore, (state) => state.currentState);
+ *   const total = useFSMSelector(checkoutStore, (state) => state.context.total);
+ *
+ * @version 0.2.0
+ */
+function useFSMSelector<TState, TTransitionMap, TContext, TSelected>(
+  store: FSMStore<TState, TTransitionMap, TContext>,
+  selector: (state: FSMState<TState, TContext>) => TSelected,
+  isEqual?: (previous: TSelected, next: TSelected) => boolean,
+): TSelected;
+function useFSMSelector<TSelected>(
+  name: string,
+  selector: (state: FSMState<string | Record<string, string>, unknown>) => TSelected,
+  isEqual?: (previous: TSelected, next: TSelected) => boolean,
+): TSelected;
+function useFSMSelector(
+  store: object | string,
+  selector: (state: FSMState<string | Record<string, string>, unknown>) => unknown,
+  isEqual: (previous: unknown, next: unknown) => boolean = Object.is,
+) {
+  const machine = useStore(store);
+  const selection = useRef<{
+    snapshot: FSMState<string | Record<string, string>, unknown>;
+    selector: (state: FSMState<string | Record<string, string>, unknown>) => unknown;
+    selected: unknown;
+  }>(undefined);
+
+  const getSelected = () => {
+    const snapshot = machine.getSnapshot();
+    if (selection.current?.snapshot !== snapshot || selection.current.selector !== selector) {
+      const selected = selector(snapshot);
+      selection.current = {
+        snapshot,
+        selector,
+        selected:
+          selection.current && isEqual(selection.current.selected, selected)
+            ? selection.current.selected
+            : selected,
+      };
+    }
+    return selection.current.selected;
   };
+  const selected = useSyncExternalStore(machine.subscribe, getSelected, getSelected);
+
+  useDebugValue(selected);
+
+  return selected;
+}
+
+/**
+ * Options of useFSMMetrics
+ *
+ * @property reporter - called with summary on every flush: each interval and on unmount
+ * @property interval - period of flush in ms. Only unmount flushes by default
+ * @property clock - time provider of timestamps and interval. Read once on mount
+ *
+ * @version 0.2.0
+ */
+export type FSMMetricsOptions = {
+  reporter?: (summary: FSMMetricsSummary) => void;
+  interval?: number;
+  clock?: FSMClock;
 };
 
+/**
+ * Hook for collect dwell time of states and counts of transitions. Pass result as metrics in config of useFSM
+ * Collector is created once on mount. Summary of period is flushed to reporter on interval and on unmount
+ *
+ * @example
+ *   const metrics = useFSMMetrics({ reporter: (summary) => analytics.track('form', summary), interval: 60000 });
+ *   const fsm = useFSM('idle', transitions, { metrics });
+ *   // summary.states.fillForm.averageTime, summary.transitions.failure
+ *
+ * @version 0.2.0
+ */
+function useFSMMetrics({ reporter, interval, clock }: FSMMetricsOptions = {}): FSMMetrics {
+  const [{ metrics, timers }] = useState(() => ({
+    metrics: createFSMMetrics({ clock }),
+    timers: clock ?? defaultClock,
+  }));
+  const reporterRef = useRef(reporter);
+
+  useEffect(() => {
+    reporterRef.current = reporter;
+  });
+
+  useEffect(() => {
+    const flush = () => reporterRef.current?.(metrics.flush());
+    let timer: unknown;
+    const schedule = () => {
+      timer = timers.setTimeout(() => {
+        flush();
+        schedule();
+      }, interval as number);
+    };
+
+    if (interval) {
+      schedule();
+    }
+    return () => {
+      if (interval) {
+        timers.clearTimeout(timer);
+      }
+      flush();
+    };
+  }, [metrics, timers, interval]);
+
+  return metrics;
+}
+
 /**
  * Provider props for State Machine
  *
- * @property config - configuration for all children FSM
+ * @property config - configuration for all children FSM. Config of parent provider by default
+ * @property stores - named stores for all children. Read them with useFSMStore(name) and useFSMSelector(name, selector)
  *
  * @example
  *   <FSMProvider config={{logLevel: 'debug', maxHistoryLength: 0, logger: console }}>
  *     <App/>
  *   </FSMProvider>
  *
+ * @example
+ *   <FSMProvider stores={{ checkout: checkoutStore }}>
+ *     <Checkout/>
+ *   </FSMProvider>
+ *
+ * @example
+ *   <FSMProvider config={{ onInvalidTransition: (invalid) => reportError(invalid) }}>
+ *     <App/>
+ *   </FSMProvider>
+ *
+ * @example
+ *   <FSMProvider config={{ middleware: [analytics, permissions] }}>
+ *     <App/>
+ *   </FSMProvider>
+ *
  * @version 0.1.0
  */
 interface FSMProviderProps {
-  config: FSMConfig;
+  config?: FSMConfig;
+  stores?: FSMStores;
+  inspector?: FSMInspector;
   children: React.ReactNode;
 }
 
@@ -291,41 +499,278 @@ interface FSMProviderProps {
  *
  * @version 0.1.0
  */
-function FSMProvider({ config, children }: FSMProviderProps) {
-  return <FSMContext.Provider value={config}>{children}</FSMContext.Provider>;
+function FSMProvider({ config, stores, inspector, children }: FSMProviderProps) {
+  const parentConfig = useContext(FSMContext);
+  const parentStores = useContext(FSMStoresContext);
+  const parentInspector = useContext(FSMInspectorContext);
+  const allStores = useMemo(() => ({ ...parentStores, ...stores }), [parentStores, stores]);
+
+  return (
+    <FSMContext.Provider value={config ?? parentConfig}>
+      <FSMStoresContext.Provider value={allStores}>
+        <FSMInspectorContext.Provider value={inspector ?? parentInspector}>
+          {children}
+        </FSMInspectorContext.Provider>
+      </FSMStoresContext.Provider>
+    </FSMContext.Provider>
+  );
 }
 
 /**
- * Generate Mermaid diagram from transitions. You can pass result in https://www.mermaidchart.com/play
- * Mermaid diagram is a simple way to show FSM
+ * Part of useFSM or useFSMStore result used by FSMMatch and FSMSwitch
  *
- * @property transitions - states and transitions of FSM. Second param of useFSM
+ * @version 0.2.0
+ */
+type FSMMatchable = { matches: (state: never) => boolean };
+
+/**
+ * State or list of states accepted by matches of machine. Parent state matches its nested states
+ *
+ * @version 0.2.0
+ */
+export type FSMMatchState<TMachine extends FSMMatchable> =
+  | Parameters<TMachine['matches']>[0]
+  | Parameters<TMachine['matches']>[0][];
+
+const matchesAny = (machine: FSMMatchable, state: unknown) =>
+  (Array.isArray(state) ? state : [state]).some((item) =>
+    (machine.matches as (state: unknown) => boolean)(item),
+  );
+
+/**
+ * Props of FSMMatch
+ *
+ * @property machine - result of useFSM or useFSMStore
+ * @property state - state or list of states to render children in. Parent state matches its nested states
+ *
+ * @version 0.2.0
+ */
+interface FSMMatchProps<TMachine extends FSMMatchable> {
+  machine: TMachine;
+  state: FSMMatchState<TMachine>;
+  children?: React.ReactNode;
+}
+
+/**
+ * Render children only when machine is in one of states
  *
  * @example
- *  console.log(generateMermaidDiagram({
- *     idle: {typing: 'typing'},
- *     typing: {submitting: 'submitting', canceling: 'idle'},
- *     submitting: {success: 'done', failure: 'fail'},
- *     fail: {restart: 'idle'},
- *     done: {}
- *   }));
+ *   <FSMMatch machine={fsm} state={['fail', 'done']}>
+ *     <button onClick={() => fsm.transition('restart')}>Again</button>
+ *   </FSMMatch>
  *
- * @return string - Mermaid diagram code
+ * @version 0.2.0
+ */
+function FSMMatch<TMachine extends FSMMatchable>({
+  machine,
+  state,
+  children,
+}: FSMMatchProps<TMachine>) {
+  return matchesAny(machine, state) ? children : null;
+}
+
+/**
+ * Props of FSMCase. State is checked against type of machine: FSMCase.for(fsm) or <FSMCase<typeof fsm> state="fail">
  *
- * @version 0.1.0
+ * @property state - state or list of states of case. Parent state matches its nested states
+ *
+ * @version 0.2.0
  */
-const generateMermaidDiagram = <T extends string, N extends string>(
-  transitions: Transitions<T, N>,
-): string => {
-  let mermaidCode = 'stateDiagram-v2\n';
-  for (const [fromState, transitionsFromState] of Object.entries(transitions)) {
-    if (transitionsFromState) {
-      for (const [event, toState] of Object.entries(transitionsFromState)) {
-        mermaidCode += `    ${fromState} --> ${toState}: ${event}\n`;
-      }
-    }
-  }
-  return mermaidCode;
+interface FSMCaseProps<TMachine extends FSMMatchable> {
+  state: FSMMatchState<TMachine>;
+  children?: React.ReactNode;
+}
+
+/**
+ * Case of FSMSwitch. Rendered by FSMSwitch when it is the first case matching state of machine
+ * JSX can't type children from their parent, so case needs type of machine. Without it no state is accepted
+ *
+ * @version 0.2.0
+ */
+function FSMCase<TMachine extends FSMMatchable = never>({ children }: FSMCaseProps<TMachine>) {
+  return children;
+}
+
+/**
+ * FSMCase typed by machine. Same component, states are checked against states of machine
+ *
+ * @property machine - result of useFSM or useFSMStore
+ *
+ * @example
+ *   const Case = FSMCase.for(fsm);
+ *   <FSMSwitch machine={fsm}>
+ *     <Case state="submitting"><Spinner/></Case>
+ *   </FSMSwitch>
+ *
+ * @version 0.2.0
+ */
+FSMCase.for = <TMachine extends FSMMatchable>(_: TMachine) => FSMCase<TMachine>;
+
+/**
+ * Fallback of FSMSwitch. Rendered by FSMSwitch when no case matches state of machine
+ *
+ * @version 0.2.0
+ */
+function FSMDefault({ children }: { children?: React.ReactNode }) {
+  return children;
+}
+
+/**
+ * Props of FSMSwitch
+ *
+ * @property machine - result of useFSM or useFSMStore
+ * @property children - FSMCase and FSMDefault elements. Other children are ignored
+ *
+ * @version 0.2.0
+ */
+interface FSMSwitchProps<TMachine extends FSMMatchable> {
+  machine: TMachine;
+  children?: React.ReactNode;
+}
+
+/**
+ * Render first FSMCase matching state of machine, or FSMDefault when none matches
+ *
+ * @example
+ *   const Case = FSMCase.for(fsm);
+ *   <FSMSwitch machine={fsm}>
+ *     <Case state="submitting"><Spinner/></Case>
+ *     <Case state={['fail', 'done']}><Result/></Case>
+ *     <FSMDefault><Form/></FSMDefault>
+ *   </FSMSwitch>
+ *
+ * @version 0.2.0
+ */
+function FSMSwitch<TMachine extends FSMMatchable>({ machine, children }: FSMSwitchProps<TMachine>) {
+  const elements = Children.toArray(children).filter(isValidElement);
+  const matched =
+    elements.find(
+      (element) =>
+        element.type === FSMCase &&
+        matchesAny(machine, (element.props as FSMCaseProps<FSMMatchable>).state),
+    ) ?? elements.find((element) => element.type === FSMDefault);
+
+  return matched ?? null;
+}
+
+/**
+ * Part of useFSM or useFSMStore result used by FSMTransitionButton
+ *
+ * @version 0.2.0
+ */
+type FSMTransitionable = Pick<UntypedMachine<unknown>, 'availableTransitions'> & {
+  send: (events: never[]) => boolean[];
 };
 
-export { useFSM, FSMProvider, generateMermaidDiagram };
+/**
+ * Transition name of machine
+ *
+ * @version 0.2.0
+ */
+export type FSMMachineEvent<TMachine extends FSMTransitionable> = Extract<
+  Parameters<TMachine['send']>[0][number],
+  string
+>;
+
+/**
+ * Props of FSMTransitionButton. Other props are passed to button
+ *
+ * @property machine - result of useFSM or useFSMStore
+ * @property event - transition to call on click
+ * @property payload - payload of transition, passed to guards and actions
+ *
+ * @version 0.2.0
+ */
+type FSMTransitionButtonProps<TMachine extends FSMTransitionable> =
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    machine: TMachine;
+    event: FSMMachineEvent<TMachine>;
+    payload?: unknown;
+  };
+
+/**
+ * Button calling transition on click
+ * Disabled when event is not in availableTransitions of current state, guards are checked with payload
+ * onClick runs first, call event.preventDefault() in it to skip transition
+ *
+ * @example
+ *   <FSMTransitionButton machine={fsm} event="submitting">Submit</FSMTransitionButton>
+ *
+ * @version 0.2.0
+ */
+function FSMTransitionButton<TMachine extends FSMTransitionable>({
+  machine,
+  event,
+  payload,
+  disabled,
+  onClick,
+  type = 'button',
+  ...props
+}: FSMTransitionButtonProps<TMachine>) {
+  const available = machine.availableTransitions({ guarded: true, payload }).includes(event);
+
+  return (
+    <button
+      {...props}
+      type={type}
+      disabled={disabled || !available}
+      onClick={(clickEvent) => {
+        onClick?.(clickEvent);
+        if (!clickEvent.defaultPrevented) {
+          (machine.send as (events: { event: string; payload?: unknown }[]) => boolean[])([
+            { event, payload },
+          ]);
+        }
+      }}
+    />
+  );
+}
+
+export { loggerMiddleware } from './machine';
+export { createFSMMetrics } from './metrics';
+export type { FSMMetrics, FSMMetricsSummary, FSMStateMetrics } from './metrics';
+export { createEventRecorder, replay } from './replay';
+export type { FSMEventRecorder, FSMRecordedEvent, FSMReplayResult } from './replay';
+export { analyzeMachine } from './analyze';
+export type { FSMAnalysis, FSMDiagnostic } from './analyze';
+export { localStorageAdapter, sessionStorageAdapter, memoryStorageAdapter } from './persist';
+export type { FSMPersistConfig, FSMPersistedState, FSMStorageAdapter } from './persist';
+
+export {
+  generateMermaidDiagram,
+  generateDotDiagram,
+  generatePlantUMLDiagram,
+  generateSCXML,
+} from './diagrams';
+export type { FSMDiagramOptions } from './diagrams';
+export { fromSCXML, fromXStateConfig, FSMImportError } from './import';
+export type { FSMDefinition } from './import';
+
+export type { FSMMachineDefinition, FSMStore, FSMStoreConfig, FSMStores } from './store';
+export { createFSMInspector, memoryDevtoolsAdapter, reduxDevtoolsAdapter } from './devtools';
+export type {
+  FSMDevtoolsAdapter,
+  FSMInspectable,
+  FSMInspectedMachine,
+  FSMInspector,
+  FSMInspectorEvent,
+  ReduxDevtoolsConnection,
+  ReduxDevtoolsExtension,
+  ReduxDevtoolsMessage,
+  ReduxDevtoolsOptions,
+} from './devtools';
+
+export {
+  useFSM,
+  useFSMStore,
+  useFSMSelector,
+  useFSMMetrics,
+  FSMProvider,
+  FSMMatch,
+  FSMSwitch,
+  FSMCase,
+  FSMDefault,
+  FSMTransitionButton,
+  createMachine,
+  createFSMStore,
+};
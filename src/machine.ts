@@ -0,0 +1,1667 @@
+import { FSMPersistConfig, loadPersistedState, savePersistedState } from './persist';
+import type { FSMMetrics } from './metrics';
+import type { FSMEventRecorder } from './replay';
+
+/**
+ * Value of state in definitions. Nested states are dotted paths from top-level state
+ *
+ * @example 'checkout' | 'checkout.payment.enteringCard'
+ *
+ * @version 0.2.0
+ */
+export type StateValue<TState extends string> = TState | `${TState}.${string}`;
+
+/**
+ * Information about state change. Passed to actions
+ *
+ * @property from - previous state. Undefined on initial entry
+ * @property to - new state
+ * @property event - transition name. Undefined on initial entry and undo
+ * @property payload - payload passed to transition
+ * @property context - context of machine after state change
+ *
+ * @version 0.2.0
+ */
+export type TransitionInfo<TState extends string, TContext = undefined> = {
+  from?: TState;
+  to: TState;
+  event?: string;
+  payload?: unknown;
+  context: TContext;
+};
+
+/**
+ * Object form of transition. Used when transition needs more than target state
+ *
+ * @property target - state to transition to
+ * @property guard - predicate. When return false, transition is rejected as invalid
+ * @property assign - reducer of context. New context is applied together with the state change
+ * @property onTransition - action. Run after exit of previous state and before entry of target
+ *
+ * @example { submitting: { target: 'submitting', guard: (state, form: Form) => form.valid } }
+ * @example { failure: { target: 'fail', assign: (context, error: string) => ({ ...context, error }) } }
+ *
+ * @version 0.2.0
+ */
+export type TransitionConfig<TState extends string, TContext = undefined> = {
+  target: TState;
+  guard?(state: TState, payload: unknown, context: TContext): boolean;
+  assign?(context: TContext, payload: unknown): TContext;
+  onTransition?(info: TransitionInfo<TState, TContext>): void;
+};
+
+/**
+ * Declarations of state. Reserved keys of state in transitions map, they are not transitions
+ *
+ * @property onEntry - action. Run when state is entered. May return cleanup, it runs before state is exited
+ * @property onExit - action. Run when state is exited
+ * @property initial - child state entered with compound state. Default: first child
+ * @property states - child transitions map. Makes state compound. Targets are siblings or absolute dotted paths
+ * @property after - delayed transitions. Key is delay in milliseconds. Timers are cleared when state is exited
+ * @property invoke - async service. Started on entry, signal is aborted on exit
+ * @property onDone - transition when invoke resolves. Result is payload
+ * @property onError - transition when invoke rejects. Error is payload
+ * @property final - FSM is done in this state. Parallel FSM is done when every region is in final state
+ *
+ * @example { loading: { onEntry: () => { const id = setInterval(poll, 1000); return () => clearInterval(id); } } }
+ * @example { checkout: { cancel: 'cart', initial: 'payment', states: { payment: { next: 'review' }, review: {} } } }
+ * @example { toast: { close: 'hidden', after: { 3000: 'hidden' } } }
+ * @example { submitting: { invoke: (context, signal) => save(context, signal), onDone: 'done', onError: 'fail' } }
+ * @example { done: { final: true } }
+ *
+ * @version 0.2.0
+ */
+export type StateConfig<TState extends string, TContext = undefined> = {
+  onEntry?(info: TransitionInfo<TState, TContext>): void | (() => void);
+  onExit?(info: TransitionInfo<TState, TContext>): void;
+  initial?: string;
+  states?: { [state: string]: StateNode<string, TContext> };
+  after?: { [delay: number]: TState | TransitionConfig<TState, TContext> };
+  invoke?(context: TContext, signal: AbortSignal): Promise<unknown>;
+  onDone?: TState | TransitionConfig<TState, TContext>;
+  onError?: TState | TransitionConfig<TState, TContext>;
+  final?: boolean;
+};
+
+/**
+ * Reserved keys of state node. Other keys of state node are transitions
+ *
+ * @version 0.2.0
+ */
+export const STATE_CONFIG_KEYS: string[] = [
+  'onEntry',
+  'onExit',
+  'initial',
+  'states',
+  'after',
+  'invoke',
+  'onDone',
+  'onError',
+  'final',
+] satisfies (keyof StateConfig<string>)[];
+
+/**
+ * Transition names of state and its child states. Reserved keys of StateConfig are excluded
+ *
+ * @version 0.2.0
+ */
+export type TransitionName<TStateNode> =
+  | Exclude<keyof TStateNode, keyof StateConfig<string>>
+  | (TStateNode extends { states: infer TChildren }
+      ? { [K in keyof TChildren]: TransitionName<TChildren[K]> }[keyof TChildren]
+      : never);
+
+/**
+ * Transition names of wildcard of transitions map. Available in every state
+ *
+ * @version 0.2.0
+ */
+export type GlobalTransitionName<TTransitionMap> = TTransitionMap extends {
+  '*': infer TGlobal;
+}
+  ? Exclude<keyof TGlobal, keyof StateConfig<string>>
+  : never;
+
+/**
+ * State names of transitions map. Wildcard is not a state
+ *
+ * @version 0.2.0
+ */
+export type StateKey<TTransitionMap> = Exclude<keyof TTransitionMap & string, '*'>;
+
+/**
+ * Dotted paths of all states in transitions map, compound states included
+ *
+ * @version 0.2.0
+ */
+export type NodePath<TTransitionMap, TPrefix extends string = ''> = {
+  [K in StateKey<TTransitionMap>]:
+    | `${TPrefix}${K}`
+    | (TTransitionMap[K] extends { states: infer TChildren }
+        ? NodePath<TChildren, `${TPrefix}${K}.`>
+        : never);
+}[StateKey<TTransitionMap>];
+
+/**
+ * Dotted paths of atomic states in transitions map. Machine is always in one of them
+ *
+ * @version 0.2.0
+ */
+export type StatePath<TTransitionMap, TPrefix extends string = ''> = {
+  [K in StateKey<TTransitionMap>]: TTransitionMap[K] extends { states: infer TChildren }
+    ? StatePath<TChildren, `${TPrefix}${K}.`>
+    : `${TPrefix}${K}`;
+}[StateKey<TTransitionMap>];
+
+/**
+ * State of transitions map. Transitions and reserved keys of StateConfig
+ *
+ * @version 0.2.0
+ */
+export type StateNode<TState extends string, TContext = undefined> = StateConfig<
+  TState,
+  TContext
+> & {
+  [event: string]:
+    | TState
+    | TransitionConfig<TState, TContext>
+    | StateConfig<TState, TContext>[keyof StateConfig<TState, TContext>];
+};
+
+/**
+ * Type for State Machine transitions
+ * States are taken from keys of map, every transition must target one of them
+ * @typeParam TState - Constraints. Array of strings. List of all possible States
+ * @typeParam TContext - type of machine context. Used in guards, assign and actions
+ * @Example { state1: { transition1: 'state1' }, state2: { transition2: 'state2' } }
+ * @Example { state1: { transition1: 'state1' }, state2: { transition2: 'state3' } } // Error! state3 not exists
+ * @Example { state1: { transition1: { target: 'state2', guard: () => true } }, state2: {} }
+ * @Example { state1: { transition1: 'state2', onExit: () => save() }, state2: {} }
+ * @Example { state1: { transition1: 'state2' }, state2: { initial: 'child1', states: { child1: { next: 'child2' }, child2: {} } } }
+ * @Example { '*': { reset: 'state1' }, state1: { transition1: 'state2' }, state2: {} } // reset is available in every state
+ *
+ * @version 0.2.0
+ */
+export type Transitions<TState extends string, TContext = undefined> = {
+  [K in TState]: StateNode<NoInfer<StateValue<TState>>, NoInfer<TContext>>;
+};
+
+/**
+ * Strict check of transitions map. Only reserved keys of StateConfig may be not a transition
+ * Transitions of child states may target siblings or absolute dotted paths
+ * Wildcard has transitions only and can't be a target
+ * Map with string keys, like imported one, is known only at runtime and is not checked
+ *
+ * @version 0.2.0
+ */
+export type ValidTransitions<
+  TTransitionMap,
+  TState extends string,
+  TContext = undefined,
+  TRootMap = TTransitionMap,
+> = string extends keyof TTransitionMap
+  ? unknown
+  : {
+      [K in keyof TTransitionMap]: K extends '*'
+        ? TTransitionMap extends TRootMap
+          ? {
+              [M in keyof TTransitionMap[K]]: M extends keyof StateConfig<TState>
+                ? never
+                :
+                    | NodePath<TRootMap>
+                    | (TransitionConfig<string, TContext> & { target: NodePath<TRootMap> });
+            }
+          : never
+        : {
+            [M in keyof TTransitionMap[K]]: M extends 'states'
+              ? ValidTransitions<
+                  TTransitionMap[K][M],
+                  (keyof TTransitionMap[K][M] & string) | NodePath<TRootMap>,
+                  TContext,
+                  TRootMap
+                >
+              : M extends 'initial'
+                ? TTransitionMap[K] extends { states: infer TChildren }
+                  ? unknown extends TChildren
+                    ? string
+                    : keyof TChildren
+                  : never
+                : M extends 'after'
+                  ? {
+                      [D in keyof TTransitionMap[K][M]]:
+                        | Exclude<TState, '*'>
+                        | NodePath<TRootMap>
+                        | { target: Exclude<TState, '*'> | NodePath<TRootMap> };
+                    }
+                  : M extends 'onDone' | 'onError'
+                    ?
+                        | Exclude<TState, '*'>
+                        | NodePath<TRootMap>
+                        | { target: Exclude<TState, '*'> | NodePath<TRootMap> }
+                    : M extends keyof StateConfig<TState>
+                      ? unknown
+                      :
+                          | Exclude<TState, '*'>
+                          | NodePath<TRootMap>
+                          | (TransitionConfig<string, TContext> & {
+                              target: Exclude<TState, '*'> | NodePath<TRootMap>;
+                            });
+          };
+    };
+
+/**
+ * Map of parallel regions. Every region is a transitions map, all regions are active at the same time
+ *
+ * @example { playback: { paused: { play: 'playing' }, playing: { pause: 'paused' } }, volume: { muted: {}, unmuted: {} } }
+ *
+ * @version 0.2.0
+ */
+export type Regions<TContext = undefined> = {
+  [region: string]: Transitions<string, TContext>;
+};
+
+/**
+ * Strict check of every region of parallel FSM
+ *
+ * @version 0.2.0
+ */
+export type ValidRegions<TRegions, TContext = undefined> = {
+  [R in keyof TRegions]: ValidTransitions<TRegions[R], keyof TRegions[R] & string, TContext>;
+};
+
+/**
+ * Initial state of parallel FSM. Any state of every region, compound states enter their initial child
+ *
+ * @version 0.2.0
+ */
+export type ParallelInitialState<TRegions> = { [R in keyof TRegions]: NodePath<TRegions[R]> };
+
+/**
+ * Current state of parallel FSM. Atomic state of every region
+ *
+ * @example { playback: 'playing', volume: 'muted' }
+ *
+ * @version 0.2.0
+ */
+export type ParallelState<TRegions> = { [R in keyof TRegions]: StatePath<TRegions[R]> };
+
+/**
+ * Regions of parallel FSM as compound states. Used to type transition names and matches
+ *
+ * @example matches('playback.playing')
+ *
+ * @version 0.2.0
+ */
+export type ParallelTransitions<TRegions> = { [R in keyof TRegions]: { states: TRegions[R] } };
+
+/**
+ * Get target state of transition in any form
+ *
+ * @version 0.2.0
+ */
+export const getTarget = <TState extends string, TContext>(
+  transition: TState | TransitionConfig<TState, TContext>,
+): TState => (typeof transition === 'string' ? transition : transition.target);
+
+/**
+ * Get transitions of state. Reserved keys of StateConfig are skipped
+ *
+ * @return [event, transition][]
+ *
+ * @version 0.2.0
+ */
+export const getTransitions = <TState extends string, TContext = undefined>(
+  stateNode: object,
+): [string, TState | TransitionConfig<TState, TContext>][] =>
+  Object.entries(stateNode).filter(([event]) => !STATE_CONFIG_KEYS.includes(event));
+
+/**
+ * Get all outgoing transitions of state: transitions, after, onDone and onError
+ * Names are the same as events in history
+ *
+ * @return [event, transition][]
+ *
+ * @version 0.2.0
+ */
+export const getEdges = <TState extends string, TContext = undefined>(
+  stateNode: StateConfig<TState, TContext>,
+): [string, TState | TransitionConfig<TState, TContext>][] => [
+  ...getTransitions<TState, TContext>(stateNode),
+  ...Object.entries<TState | TransitionConfig<TState, TContext>>(stateNode.after ?? {}).map(
+    ([delay, transition]): [string, TState | TransitionConfig<TState, TContext>] => [
+      `after(${delay})`,
+      transition,
+    ],
+  ),
+  ...(['onDone', 'onError'] as const).flatMap(
+    (event): [string, TState | TransitionConfig<TState, TContext>][] => {
+      const transition = stateNode[event];
+      return transition ? [[event, transition]] : [];
+    },
+  ),
+];
+
+/**
+ * Get state of transitions map by dotted path
+ *
+ * @return state or undefined when path not exists
+ *
+ * @version 0.2.0
+ */
+export const getStateNode = <TContext = undefined>(
+  transitions: object,
+  path: string,
+): StateConfig<string, TContext> | undefined =>
+  path
+    .split('.')
+    .reduce<
+      StateConfig<string, TContext> | undefined
+    >((stateNode, key) => stateNode?.states?.[key], { states: transitions as StateConfig<string, TContext>['states'] });
+
+/**
+ * Get dotted path of transition target. Sibling of source state first, absolute path otherwise
+ *
+ * @version 0.2.0
+ */
+export const resolveTarget = (transitions: object, source: string, target: string): string => {
+  const sibling = source.split('.').slice(0, -1).concat(target).join('.');
+  return getStateNode(transitions, sibling) ? sibling : target;
+};
+
+/**
+ * Get atomic state entered with state. Follows initial of compound states
+ * Unknown path is returned as is, callers check it with getStateNode
+ *
+ * @version 0.2.0
+ */
+export const resolveInitial = (transitions: object, path: string): string => {
+  const stateNode = getStateNode(transitions, path);
+  return stateNode?.states
+    ? resolveInitial(
+        transitions,
+        `${path}.${stateNode.initial ?? Object.keys(stateNode.states)[0]}`,
+      )
+    : path;
+};
+
+/**
+ * Get path and all its ancestors, deepest first
+ *
+ * @example getAncestors('a.b.c') // ['a.b.c', 'a.b', 'a']
+ *
+ * @version 0.2.0
+ */
+export const getAncestors = (path: string): string[] =>
+  path.split('.').map((_, index, keys) => keys.slice(0, keys.length - index).join('.'));
+
+/**
+ * Key of global transitions in transitions map. They apply to every state that doesn't handle the event itself
+ *
+ * @example { '*': { reset: 'idle' }, idle: { typing: 'typing' }, typing: {} }
+ *
+ * @version 0.2.0
+ */
+export const WILDCARD = '*';
+
+/**
+ * Get states whose transitions apply in state: the state, its ancestors and wildcard of transitions map. First match wins
+ *
+ * @example getSources({ '*': { reset: 'a' }, a: {} }, 'a.b.c') // ['a.b.c', 'a.b', 'a', '*']
+ *
+ * @version 0.2.0
+ */
+export const getSources = (transitions: object, path: string): string[] =>
+  WILDCARD in transitions ? [...getAncestors(path), WILDCARD] : getAncestors(path);
+
+/**
+ * Internal logger. Used to log messages and warnings
+ * log - for debug level
+ * warn - debug and info level
+ *
+ * console as default logger
+ *
+ * @version 0.1.0
+ */
+export type FSMLogger = {
+  log: (message: string) => void;
+  warn: (message: string) => void;
+};
+
+/**
+ * Time provider of FSM. Pass own clock to drive timers in tests
+ *
+ * @version 0.2.0
+ */
+export type FSMClock = {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => unknown;
+  clearTimeout: (timer: unknown) => void;
+};
+
+export const defaultClock: FSMClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Rejected call of transition, undo, redo or jumpTo. Passed to custom onInvalidTransition handler
+ *
+ * @property from - current state. Object of region states for parallel FSM
+ * @property event - transition name. 'undo' and 'redo' for empty history, 'jumpTo' for index out of timeline
+ * @property available - transitions of current state. Guards are not checked
+ *
+ * @version 0.2.0
+ */
+export type FSMInvalidTransition = {
+  from: string | Record<string, string>;
+  event: string;
+  available: string[];
+};
+
+/**
+ * Transition passed through middleware
+ *
+ * @property from - current state. Object of region states for parallel FSM
+ * @property event - transition name. 'undo' for undo
+ * @property to - target state, resolved to atomic states. Rewritten target of previous middleware
+ * @property payload - payload of transition. undefined for undo
+ *
+ * @version 0.2.0
+ */
+export type FSMMiddlewareTransition = {
+  from: string | Record<string, string>;
+  event: string;
+  to: string | Record<string, string>;
+  payload?: unknown;
+};
+
+/**
+ * Middleware around transition and undo. Middleware run in order of config, the last one applies the change
+ * Call next() to continue, next(to) to rewrite target of transition, or return false without next to cancel
+ * next can be called once: later calls return false and don't apply the change again
+ * Rewritten target may be a compound state, it is resolved to its initial state. Rewritten target of undo is rejected like invalid transition
+ *
+ * @return boolean - result of next. false when cancelled
+ *
+ * @example
+ *   const permissions: FSMMiddleware = ({ event }, next) => (canDo(event) ? next() : false);
+ *
+ * @version 0.2.0
+ */
+export type FSMMiddleware = (
+  transition: FSMMiddlewareTransition,
+  next: (to?: string | Record<string, string>) => boolean,
+) => boolean;
+
+const formatValue = (value: string | Record<string, string>) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Middleware logging transitions and undo with logger.log. Added after middleware of config on debug logLevel
+ *
+ * @example createMachine('idle', transitions, { middleware: [loggerMiddleware(console)] })
+ *
+ * @version 0.2.0
+ */
+export const loggerMiddleware =
+  (logger: FSMLogger): FSMMiddleware =>
+  ({ from, event, to }, next) => {
+    logger.log(
+      event === 'undo'
+        ? `Undoing from ${formatValue(from)} to ${formatValue(to)}`
+        : `Transitioning from ${formatValue(from)} to ${event}`,
+    );
+    return next();
+  };
+
+/**
+ * @property logLevel - level of logs. Values: 'none' | 'info' | 'debug'. Default: 'none'
+ * @property maxHistoryLength - Length of history array. FIFO. Default: Infinity
+ * @property logger - logger provider that implement FSMLogger type. console default logger
+ * @property clock - time provider that implement FSMClock type. Date.now and global timers by default
+ * @property persist - storage of machine state. Restored on creation
+ * @property onInvalidTransition - policy for invalid transition, undo and redo of empty history and invalid jumpTo. Values: 'warn' | 'throw' | 'ignore' | handler. Default: 'warn'
+ * @property middleware - functions around every transition and undo, in order. Default: []
+ *
+ * @version 0.1.0
+ */
+export type FSMConfig = {
+  /**
+   * @default none
+   *
+   * none = disable any log
+   * info - warns only. Possible when call invalid transition, undo or redo empty history, jump out of timeline
+   * debug - show all logs. Warns and transitions between states
+   *
+   * @version 0.1.0
+   */
+  logLevel?: 'none' | 'info' | 'debug';
+
+  /**
+   * @default Infinity
+   *
+   * 0 or less is equal to disable history
+   * applied to both history and future (redo) stacks
+   *
+   * @version 0.1.0
+   */
+  maxHistoryLength?: number;
+
+  /**
+   * @default console
+   *
+   * logger provider
+   *
+   * @version 0.1.0
+   */
+  logger?: FSMLogger;
+
+  /**
+   * @default undefined
+   *
+   * save state, context and history to storage on every change and restore them on creation
+   * key is unique per machine, so it is usually set in config of useFSM, not in FSMProvider
+   *
+   * @version 0.2.0
+   */
+  persist?: FSMPersistConfig;
+
+  /**
+   * @default Date.now, setTimeout and clearTimeout
+   *
+   * time provider. Timestamps of history and timers of after
+   *
+   * @version 0.2.0
+   */
+  clock?: FSMClock;
+
+  /**
+   * @default warn
+   *
+   * warn - logger.warn when logLevel is not none
+   * throw - throw Error, for tests
+   * ignore - return false silently
+   * handler - called with from, event and available transitions, for error tracking
+   * transition, undo, redo and jumpTo return false unless policy throws
+   *
+   * @version 0.2.0
+   */
+  onInvalidTransition?: 'warn' | 'throw' | 'ignore' | ((invalid: FSMInvalidTransition) => void);
+
+  /**
+   * @default []
+   *
+   * analytics, permission checks and vetoes of transitions, undo and transitions of after and invoke
+   * useFSM runs middleware of FSMProvider first, then middleware of its own config
+   * loggerMiddleware is added last on debug logLevel
+   *
+   * @version 0.2.0
+   */
+  middleware?: FSMMiddleware[];
+};
+
+/**
+ * Configuration of createMachine
+ *
+ * @property context - initial context of machine. Extended state, updated by assign of transitions
+ * @property deferActions - when true, actions wait for flush() instead of running right after change. Default: false
+ * @property onDone - called with context when transition leads to final state
+ * @property metrics - collector of dwell time and transition counts, see createFSMMetrics
+ * @property recorder - log of transition, undo, redo and jumpTo calls for replay, see createEventRecorder
+ *
+ * @version 0.2.0
+ */
+export type FSMMachineConfig<TContext = undefined> = FSMConfig & {
+  /**
+   * @default undefined
+   *
+   * initial context. Restored by undo together with state
+   *
+   * @version 0.2.0
+   */
+  context?: TContext;
+
+  /**
+   * @default false
+   *
+   * useFSM defers actions to run them after React commits the new state
+   *
+   * @version 0.2.0
+   */
+  deferActions?: boolean;
+
+  /**
+   * @default undefined
+   *
+   * called with context when transition leads to final state. Runs after actions of transition
+   * undo, redo and jumpTo to final state don't call it
+   *
+   * @version 0.2.0
+   */
+  onDone?: (context: TContext) => void;
+
+  /**
+   * @default undefined
+   *
+   * records entry and exit of states, applied and rejected transitions
+   * one collector per machine: states of machines sharing it are mixed
+   *
+   * @version 0.2.0
+   */
+  metrics?: FSMMetrics;
+
+  /**
+   * @default undefined
+   *
+   * records every call of transition, undo, redo and jumpTo when it runs, rejected ones too
+   * after, onDone and onError are recorded when they reach their transition
+   *
+   * @version 0.2.0
+   */
+  recorder?: FSMEventRecorder;
+};
+
+/**
+ * @property from - previous state
+ * @property to - new state
+ * @property event - transition name
+ * @property timestamp - time of transition. Milliseconds, Date.now()
+ * @property payload - payload passed to transition
+ *
+ * Record of applied transition
+ *
+ * @version 0.2.0
+ */
+export type FSMTransitionRecord<TState> = {
+  from: TState;
+  to: TState;
+  event: string;
+  timestamp: number;
+  payload?: unknown;
+};
+
+/**
+ * @property fromContext - context of previous state. Restored by undo
+ * @property toContext - context of new state. Restored by redo
+ *
+ * Entry of State Machine history
+ *
+ * @version 0.2.0
+ */
+export type FSMHistoryEntry<TState, TContext = undefined> = FSMTransitionRecord<TState> & {
+  fromContext: TContext;
+  toContext: TContext;
+};
+
+/**
+ * @property currentState - current state of FSM. Object of region states for parallel FSM
+ * @property context - current context of FSM
+ * @property history - applied transitions. FIFO
+ * @property future - undone transitions, next redo first. Cleared by transition
+ *
+ * Snapshot of State Machine. Immutable, a new object is created on every change
+ * history and future are one chronological sequence of transitions, current state is between them
+ *
+ * @version 0.2.0
+ */
+export type FSMState<TState, TContext = undefined> = {
+  currentState: TState;
+  context: TContext;
+  history: FSMHistoryEntry<TState, TContext>[];
+  future: FSMHistoryEntry<TState, TContext>[];
+};
+
+/**
+ *
+ * Action type for State Machine.
+ * TRANSITION - when need to change state
+ * UNDO - when need to undo transition by history
+ * REDO - when need to redo undone transition
+ * JUMP - when need to move to any index of timeline
+ *
+ * @version 0.2.0
+ */
+export type FSMAction<TState, TContext = undefined> =
+  | {
+      type: 'TRANSITION';
+      to: TState;
+      event: string;
+      timestamp: number;
+      payload?: unknown;
+      context: TContext;
+    }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP'; index: number };
+
+/**
+ * Move current state to index of timeline [...history states, current, ...future states]
+ * Index N is the state after first N transitions of [...history, ...future]
+ * Both stacks are cut by maxHistoryLength
+ */
+const travel = <TState, TContext>(
+  state: FSMState<TState, TContext>,
+  index: number,
+  maxHistoryLength: number,
+): FSMState<TState, TContext> => {
+  const transitions = [...state.history, ...state.future];
+  const previous = transitions[index - 1];
+
+  return {
+    currentState: previous ? previous.to : transitions[0].from,
+    context: previous ? previous.toContext : transitions[0].fromContext,
+    history: maxHistoryLength > 0 ? transitions.slice(0, index).slice(-maxHistoryLength) : [],
+    future: maxHistoryLength > 0 ? transitions.slice(index).slice(0, maxHistoryLength) : [],
+  };
+};
+
+/**
+ * @property currentState - current state of FSM
+ * @property context - current context of FSM
+ * @property history - history of states. FIFO
+ * @property future - undone states
+ *
+ * Reducer of actions for State Machine
+ * Change states and context, save/cut/undo/redo history
+ *
+ * @version 0.2.0
+ */
+export const FSMReducer = <TState, TContext = undefined>(
+  state: FSMState<TState, TContext>,
+  action: FSMAction<TState, TContext>,
+  maxHistoryLength: number = Infinity,
+): FSMState<TState, TContext> => {
+  switch (action.type) {
+    case 'TRANSITION':
+      return {
+        currentState: action.to,
+        context: action.context,
+        history:
+          maxHistoryLength > 0
+            ? state.history
+                .concat({
+                  from: state.currentState,
+                  to: action.to,
+                  event: action.event,
+                  timestamp: action.timestamp,
+                  payload: action.payload,
+                  fromContext: state.context,
+                  toContext: action.context,
+                })
+                .slice(-maxHistoryLength)
+            : [],
+        future: [],
+      };
+    case 'UNDO':
+      return travel(state, state.history.length - 1, maxHistoryLength);
+    case 'REDO':
+      return travel(state, state.history.length + 1, maxHistoryLength);
+    case 'JUMP':
+      return travel(state, action.index, maxHistoryLength);
+  }
+};
+
+/**
+ * Event of send. Transition name, or transition name with payload
+ *
+ * @example 'typing'
+ * @example { event: 'submit', payload: form }
+ *
+ * @version 0.2.0
+ */
+export type FSMEvent<TTransitionMap> =
+  | FSMEventName<TTransitionMap>
+  | { event: FSMEventName<TTransitionMap>; payload?: unknown };
+
+/**
+ * Transition names of all states of transitions map
+ */
+type FSMEventName<TTransitionMap> = {
+  [K in keyof TTransitionMap]: TransitionName<TTransitionMap[K]>;
+}[keyof TTransitionMap];
+
+/**
+ * Framework-agnostic State Machine. Returned by createMachine
+ *
+ * @typeParam TState - list of all possible States
+ * @typeParam TTransitionMap - transitions map. Used to type transition names
+ * @typeParam TContext - type of machine context
+ *
+ * @version 0.2.0
+ */
+export type FSMMachine<TState, TTransitionMap, TContext = undefined> = {
+  /**
+   * Current snapshot of machine. Same object is returned until next change
+   */
+  getSnapshot: () => FSMState<TState, TContext>;
+
+  /**
+   * @typeParam TPredicatedState - predicated current state. Help to show only available transitions. If not pass, it will show all transitions of all states.
+   *
+   * Transition to another state
+   * Event not handled by current state bubbles to its parent states, then to wildcard of transitions map
+   * payload is passed to guard, assign and actions. Callback can be passed as second argument when there is no payload
+   * Function as the only argument is the callback: pass function payload with callback or undefined after it
+   * Transitions called from actions wait until current transition and its actions complete
+   * Queued transition returns true right away: it is checked when it runs, rejection goes through onInvalidTransition
+   * @return boolean - true if transition was applied or queued
+   */
+  transition: <TPredicatedState extends keyof TTransitionMap>(
+    to: TPredicatedState extends keyof TTransitionMap
+      ? TransitionName<TTransitionMap[TPredicatedState]> | GlobalTransitionName<TTransitionMap>
+      : never,
+    ...args:
+      | [callback?: (newState: TState) => void]
+      | [payload: unknown, callback?: (newState: TState) => void]
+  ) => boolean;
+
+  /**
+   * Send events one by one. Every event is checked against state left by previous one
+   * Called from action, events are queued and run after it
+   * @example send(['typing', { event: 'submit', payload: form }]) // [true, true]
+   * @return boolean[] - result of every event, like transition
+   */
+  send: (events: FSMEvent<TTransitionMap>[]) => boolean[];
+
+  /**
+   * Check current state or any of its ancestors
+   * @example matches('checkout.payment') // true in 'checkout.payment.enteringCard'
+   */
+  matches: (state: NodePath<TTransitionMap>) => boolean;
+
+  /**
+   * undo one step in history
+   * @return boolean - true if undo was applied
+   */
+  undo: () => boolean;
+
+  /**
+   * redo one undone step
+   * @return boolean - true if redo was applied
+   */
+  redo: () => boolean;
+
+  /**
+   * Move to index of timeline [...getHistory(), currentState, ...getFuture()]
+   * @return boolean - true if index is valid and differs from current
+   */
+  jumpTo: (index: number) => boolean;
+
+  /**
+   * @return boolean - true if history is not empty
+   */
+  canUndo: () => boolean;
+
+  /**
+   * @return boolean - true if there are undone states
+   */
+  canRedo: () => boolean;
+
+  /**
+   * @return boolean - true if current state is final. Every region is in final state for parallel FSM
+   */
+  isDone: () => boolean;
+
+  /**
+   * Wait for final state. Resolves at once when FSM is already done
+   * @return Promise - context of final state
+   */
+  whenDone: () => Promise<TContext>;
+
+  /**
+   * Get available transitions for current state
+   * @property options.guarded - report only transitions whose guards currently pass
+   * @property options.payload - payload passed to guards
+   * @return string[] - list of available transitions for current state
+   */
+  availableTransitions: (options?: { guarded?: boolean; payload?: unknown }) => string[];
+
+  /**
+   * Get history of current states
+   * @return string[] - list of states in history
+   */
+  getHistory: () => TState[];
+
+  /**
+   * Get undone states, next redo first
+   * @return string[] - list of states in future
+   */
+  getFuture: () => TState[];
+
+  /**
+   * Get records of transitions in history
+   * @return FSMTransitionRecord[] - list of { from, to, event, timestamp, payload }
+   */
+  getTransitionLog: () => FSMTransitionRecord<TState>[];
+
+  /**
+   * Subscribe to snapshot changes. Listener gets action of change
+   * @return function - unsubscribe
+   */
+  subscribe: (listener: (action: FSMAction<TState, TContext>) => void) => () => void;
+
+  /**
+   * Run pending actions. Needed only with deferActions
+   */
+  flush: () => void;
+
+  /**
+   * Run cleanup of current state entry action and drop pending actions. Next flush enters current state again
+   */
+  stop: () => void;
+};
+
+/**
+ * Create Finite State Machine without React. Works in Node, workers and any non-React code.
+ * useFSM is a thin wrapper over it
+ *
+ * @property initialState - initial state of FSM. One of state in transitions (second property). Object of region states for parallel FSM
+ * @property transitions - map of states and transitions. { "state": { "transition": "otherState" }, "otherState": {} }. Map of regions for parallel FSM
+ * @property config - configuration for FSM. Initial context is set here
+ *
+ * Actions run right after change. Entry action of initial state runs on creation
+ * Current state is always atomic. Compound states are entered through their initial child
+ * In parallel FSM every region handles the event independently, one transition moves all of them
+ *
+ * @example
+ *   const machine = createMachine('idle', {
+ *     idle: { typing: 'typing' },
+ *     typing: { canceling: 'idle' },
+ *   });
+ *   machine.subscribe(() => console.log(machine.getSnapshot().currentState));
+ *   machine.transition('typing');
+ *
+ * @example
+ *   const player = createMachine(
+ *     { playback: 'paused', volume: 'unmuted' },
+ *     {
+ *       playback: { paused: { play: 'playing' }, playing: { pause: 'paused', stop: 'paused' } },
+ *       volume: { unmuted: { mute: 'muted' }, muted: { unmute: 'unmuted', stop: 'unmuted' } },
+ *     },
+ *   );
+ *   player.transition('stop'); // { playback: 'paused', volume: 'unmuted' }
+ *
+ * @version 0.2.0
+ */
+export function createMachine<TState extends string, TTransitionMap, TContext = undefined>(
+  initialState: NoInfer<Exclude<TState, '*'>>,
+  transitions: TTransitionMap &
+    Transitions<TState, TContext> &
+    ValidTransitions<TTransitionMap, NoInfer<TState>, NoInfer<TContext>>,
+  config?: FSMMachineConfig<TContext>,
+): FSMMachine<StatePath<TTransitionMap>, TTransitionMap, TContext>;
+export function createMachine<TRegions, TContext = undefined>(
+  initialState: NoInfer<ParallelInitialState<TRegions>>,
+  transitions: TRegions & Regions<TContext> & ValidRegions<NoInfer<TRegions>, NoInfer<TContext>>,
+  config?: FSMMachineConfig<TContext>,
+): FSMMachine<ParallelState<TRegions>, ParallelTransitions<TRegions>, TContext>;
+export function createMachine<TContext = undefined>(
+  initialState: string | Record<string, string>,
+  transitions: object,
+  config?: FSMMachineConfig<TContext>,
+): UntypedMachine<TContext> {
+  return createUntypedMachine(initialState, transitions, config);
+}
+
+/**
+ * FSMMachine without types of states and transitions
+ *
+ * @version 0.2.0
+ */
+export type UntypedMachine<TContext = undefined> = FSMMachine<
+  string | Record<string, string>,
+  Record<string, object>,
+  TContext
+>;
+
+/**
+ * Same as createMachine, without type check of transitions map. Used by useFSM
+ * automaticEvents lets transition send after(delay), onDone and onError of current state. Used by replay
+ *
+ * @version 0.2.0
+ */
+export const createUntypedMachine = <TContext = undefined>(
+  initialState: string | Record<string, string>,
+  transitions: object,
+  config: FSMMachineConfig<TContext> & { automaticEvents?: boolean } = {},
+): UntypedMachine<TContext> => {
+  type TValue = string | Record<string, string>;
+  type TEdge = string | TransitionConfig<string, TContext>;
+
+  /**
+   * Region of FSM. Simple FSM has one region without name
+   */
+  type Region = { name?: string; transitions: object };
+
+  /**
+   * Transition found for event in region
+   */
+  type Found = { region: Region; source: string; edge: TEdge };
+
+  const {
+    deferActions = false,
+    clock = defaultClock,
+    persist,
+    metrics,
+    recorder,
+    automaticEvents = false,
+  } = config;
+
+  /**
+   * Options of FSMConfig are read on every use: useFSM passes config of its last render
+   */
+  const options = () => {
+    const {
+      logLevel = 'none',
+      maxHistoryLength = Infinity,
+      logger = console,
+      onInvalidTransition = 'warn',
+      middleware = [],
+    } = config;
+    return { logLevel, maxHistoryLength, logger, onInvalidTransition, middleware };
+  };
+
+  /**
+   * logger.warn unless logLevel is none
+   */
+  const warn = (message: string) => {
+    const { logLevel, logger } = options();
+    if (logLevel !== 'none') {
+      logger.warn(message);
+    }
+  };
+  // region maps are read from transitions on every use: useFSM passes transitions of its last render
+  const regions: Region[] =
+    typeof initialState === 'string'
+      ? [{ transitions }]
+      : Object.keys(transitions).map((name) => ({
+          name,
+          get transitions() {
+            return (transitions as Regions<TContext>)[name];
+          },
+        }));
+  const listeners = new Set<(action: FSMAction<TValue, TContext>) => void>();
+  const queue: (() => boolean)[] = [];
+  let processing = false;
+  const doneListeners = new Set<(context: TContext) => void>();
+  const cleanups = new Map<string, () => void>();
+  let pendingActions: (() => void)[] = [];
+
+  /**
+   * Current state of region
+   */
+  const stateOf = (value: TValue, { name }: Region) =>
+    typeof value === 'string' ? value : value[name as string];
+
+  /**
+   * Combine states of regions to state of FSM
+   */
+  const toValue = (states: string[]): TValue =>
+    typeof initialState === 'string'
+      ? states[0]
+      : Object.fromEntries(regions.map(({ name }, index) => [name, states[index]]));
+
+  /**
+   * Path of state from root of FSM. Region name is the first segment in parallel FSM
+   */
+  const fullPath = ({ name }: Region, path: string) => (name ? `${name}.${path}` : path);
+
+  const format = (value: TValue) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+  /**
+   * Check that value is atomic state of every region
+   */
+  const isKnown = (value: unknown) =>
+    typeof value === (typeof initialState === 'string' ? 'string' : 'object') &&
+    regions.every((region) => {
+      const path = String(stateOf(value as TValue, region));
+      const stateNode = getStateNode(region.transitions, path);
+      return path !== WILDCARD && stateNode !== undefined && !stateNode.states;
+    });
+
+  /**
+   * Read persisted state. Dropped when it is broken or has states missing in transitions map
+   */
+  const restore = (): FSMState<TValue, TContext> | undefined => {
+    if (!persist) {
+      return undefined;
+    }
+
+    try {
+      const persisted = loadPersistedState(persist);
+      if (
+        !persisted ||
+        (isKnown(persisted.currentState) &&
+          [...persisted.history, ...persisted.future].every(
+            ({ from, to }) => isKnown(from) && isKnown(to),
+          ))
+      ) {
+        return persisted as FSMState<TValue, TContext> | undefined;
+      }
+    } catch {
+      // broken JSON is dropped with the same warning
+    }
+
+    warn(`Persisted state of ${persist.key} is dropped`);
+    return undefined;
+  };
+
+  let state: FSMState<TValue, TContext> = restore() ?? {
+    currentState: toValue(
+      regions.map((region) => resolveInitial(region.transitions, stateOf(initialState, region))),
+    ),
+    context: config.context as TContext,
+    history: [],
+    future: [],
+  };
+
+  const getNode = (region: Region, path: string) =>
+    getStateNode<TContext>(region.transitions, path) as StateNode<string, TContext>;
+
+  /**
+   * Paths of states and their ancestors from root of FSM, parents first
+   */
+  const activePaths = (value: TValue) =>
+    regions.flatMap((region) =>
+      getAncestors(stateOf(value, region))
+        .reverse()
+        .map((path) => fullPath(region, path)),
+    );
+
+  /**
+   * Record left and entered states and applied transition in metrics
+   */
+  const record = (previous: TValue, action: FSMAction<TValue, TContext>) => {
+    if (!metrics) {
+      return;
+    }
+    const before = activePaths(previous);
+    const after = activePaths(state.currentState);
+    before
+      .filter((path) => !after.includes(path))
+      .reverse()
+      .forEach((path) => metrics.exit(path));
+    if (action.type === 'TRANSITION') {
+      metrics.transition(action.event);
+    }
+    after.filter((path) => !before.includes(path)).forEach((path) => metrics.enter(path));
+  };
+
+  const isFinal = (value: TValue) =>
+    regions.every((region) => getNode(region, stateOf(value, region)).final === true);
+
+  /**
+   * Run entry action, start invoke and timers of after. All of them are cleaned up on exit
+   */
+  const enter = (region: Region, path: string, info: TransitionInfo<string, TContext>) => () => {
+    const stateNode = getNode(region, path);
+    const cleanup = stateNode.onEntry?.(info);
+    const abort = stateNode.invoke && invoke(region, path, stateNode);
+    const timers = Object.entries<TEdge>(stateNode.after ?? {}).map(([delay, edge]) =>
+      clock.setTimeout(() => handle(region, path, `after(${delay})`, edge), Number(delay)),
+    );
+    if (cleanup || abort || timers.length > 0) {
+      cleanups.set(fullPath(region, path), () => {
+        timers.forEach((timer) => clock.clearTimeout(timer));
+        abort?.();
+        cleanup?.();
+      });
+    }
+  };
+
+  const exit = (region: Region, path: string, info: TransitionInfo<string, TContext>) => () => {
+    cleanups.get(fullPath(region, path))?.();
+    cleanups.delete(fullPath(region, path));
+    getNode(region, path).onExit?.(info);
+  };
+
+  /**
+   * Exit states from current up to common ancestor with target, then enter states down to target
+   * Transition to the same atomic state exits and enters it again
+   *
+   * @return [exit actions, entry actions]
+   */
+  const change = (region: Region, info: TransitionInfo<string, TContext>) => {
+    const exits = getAncestors(info.from as string);
+    const entries = getAncestors(info.to).reverse();
+    const common = exits.filter((path) => entries.includes(path) && path !== info.to);
+
+    return [
+      exits.filter((path) => !common.includes(path)).map((path) => exit(region, path, info)),
+      entries.filter((path) => !common.includes(path)).map((path) => enter(region, path, info)),
+    ];
+  };
+
+  const enterCurrent = () =>
+    regions.flatMap((region) => {
+      const current = stateOf(state.currentState, region);
+      return getAncestors(current)
+        .reverse()
+        .map((path) => enter(region, path, { to: current, context: state.context }));
+    });
+
+  /**
+   * Run to completion. Events sent while other event or actions run wait in queue and run after them in order
+   * Queued event is reported as accepted, its rejection goes through onInvalidTransition when it runs
+   * Error of queued event or its actions doesn't stop the rest of queue: first of them is thrown to caller after queue drains
+   * Queue is dropped when first event or its actions throw: the error belongs to caller
+   *
+   * @return boolean - result of task, true when task is queued
+   */
+  const run = (task: () => boolean) => {
+    if (processing) {
+      queue.push(task);
+      return true;
+    }
+    processing = true;
+    try {
+      const result = task();
+      const errors: unknown[] = [];
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        try {
+          next();
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+      if (errors.length > 0) {
+        throw errors[0];
+      }
+      return result;
+    } finally {
+      processing = false;
+      queue.length = 0;
+    }
+  };
+
+  const runActions = () => {
+    const actions = pendingActions;
+    pendingActions = [];
+    actions.forEach((action) => action());
+  };
+
+  const flush = () => {
+    run(() => {
+      runActions();
+      return true;
+    });
+  };
+
+  const dispatch = (action: FSMAction<TValue, TContext>, actions: (() => void)[]) => {
+    const previous = state.currentState;
+    state = FSMReducer(state, action, options().maxHistoryLength);
+    record(previous, action);
+    if (persist) {
+      try {
+        savePersistedState(persist, state);
+      } catch {
+        // unserializable payload or full storage must not break the change
+        warn(`Persisted state of ${persist.key} is not saved`);
+      }
+    }
+    pendingActions.push(...actions);
+    listeners.forEach((listener) => listener(action));
+    if (!deferActions) {
+      runActions();
+    }
+  };
+
+  const isAllowed = (edge: TEdge, current: string, payload: unknown) =>
+    typeof edge === 'string' || !edge.guard || edge.guard(current, payload, state.context);
+
+  /**
+   * Find transition in current state of region, its ancestors or wildcard. Deepest state with passing guard wins
+   */
+  const findTransition = (region: Region, event: string, payload: unknown): Found | undefined => {
+    const current = stateOf(state.currentState, region);
+    const edgesOf = automaticEvents ? getEdges : getTransitions;
+    for (const source of getSources(region.transitions, current)) {
+      const edge = edgesOf<string, TContext>(getNode(region, source)).find(
+        ([name]) => name === event,
+      )?.[1];
+      if (edge && isAllowed(edge, current, payload)) {
+        return { region, source, edge };
+      }
+    }
+  };
+
+  /**
+   * Pass transition through middleware. Last next commits the target. Every next runs once
+   */
+  const intercept = (
+    transition: FSMMiddlewareTransition,
+    commit: (to: string | Record<string, string>) => boolean,
+  ) => {
+    const { logLevel, logger, middleware } = options();
+    const pipeline = logLevel === 'debug' ? [...middleware, loggerMiddleware(logger)] : middleware;
+    const call = (index: number, to: string | Record<string, string>): boolean => {
+      if (index === pipeline.length) {
+        return commit(to);
+      }
+      let called = false;
+      return pipeline[index]({ ...transition, to }, (next = to) => {
+        if (called) {
+          return false;
+        }
+        called = true;
+        return call(index + 1, next);
+      });
+    };
+    return call(0, transition.to);
+  };
+
+  /**
+   * Resolve compound states of target to their initial states. Unknown states are kept for isKnown
+   */
+  const resolveValue = (value: TValue) =>
+    typeof value === typeof initialState
+      ? toValue(
+          regions.map((region) =>
+            resolveInitial(region.transitions, String(stateOf(value, region))),
+          ),
+        )
+      : value;
+
+  /**
+   * Apply found transitions of regions as one change of FSM, after middleware
+   * Regions without found transition change only when middleware rewrites their state
+   * Targets missing in transitions map are rejected after middleware, like rewritten ones
+   */
+  const apply = (event: string, found: Found[], payload: unknown) => {
+    const target = toValue(
+      regions.map((region) => {
+        const item = found.find((item) => item.region === region);
+        return item
+          ? resolveInitial(
+              region.transitions,
+              resolveTarget(region.transitions, item.source, getTarget(item.edge)),
+            )
+          : stateOf(state.currentState, region);
+      }),
+    );
+
+    return intercept({ from: state.currentState, event, to: target, payload }, (rewritten) => {
+      const to = resolveValue(rewritten);
+      if (!isKnown(to)) {
+        return reject(event, `Invalid target ${format(to)} of ${event}`);
+      }
+      const context = found.reduce(
+        (context, { edge }) =>
+          typeof edge !== 'string' && edge.assign ? edge.assign(context, payload) : context,
+        state.context,
+      );
+      const changes = regions.flatMap((region) => {
+        const edge = found.find((item) => item.region === region)?.edge;
+        const info = {
+          from: stateOf(state.currentState, region),
+          to: stateOf(to, region),
+          event,
+          payload,
+          context,
+        };
+        return edge !== undefined || info.from !== info.to
+          ? [{ info, actions: change(region, info), edge }]
+          : [];
+      });
+      const done = !isFinal(state.currentState) && isFinal(to);
+
+      dispatch(
+        {
+          type: 'TRANSITION',
+          to,
+          event,
+          timestamp: clock.now(),
+          payload,
+          context,
+        },
+        [
+          ...changes.flatMap(({ actions }) => actions[0]),
+          ...changes.map(
+            ({ edge, info }) =>
+              () =>
+                typeof edge === 'object' && edge.onTransition?.(info),
+          ),
+          ...changes.flatMap(({ actions }) => actions[1]),
+          ...(done
+            ? [
+                () => {
+                  config.onDone?.(context);
+                  doneListeners.forEach((listener) => listener(context));
+                },
+              ]
+            : []),
+        ],
+      );
+      return true;
+    });
+  };
+
+  /**
+   * Transition declared by state itself: after, onDone, onError
+   * Ignored when source state is already left or guard fails
+   */
+  const handle = (
+    region: Region,
+    source: string,
+    event: string,
+    edge: TEdge,
+    payload?: unknown,
+  ) => {
+    run(() => {
+      const current = stateOf(state.currentState, region);
+      if (!getAncestors(current).includes(source) || !isAllowed(edge, current, payload)) {
+        return false;
+      }
+      recorder?.record({ event, payload, timestamp: clock.now() });
+      return apply(event, [{ region, source, edge }], payload);
+    });
+  };
+
+  /**
+   * Run invoke of state. Result is sent as payload of onDone or onError
+   * Exit of state aborts the signal, results after abort are ignored
+   */
+  const invoke = (region: Region, path: string, stateNode: StateNode<string, TContext>) => {
+    const controller = new AbortController();
+    const settle = (event: 'onDone' | 'onError', payload: unknown) => {
+      const edge = stateNode[event];
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (edge) {
+        handle(region, path, event, edge, payload);
+      } else if (event === 'onError') {
+        warn(`Unhandled invoke error in ${fullPath(region, path)}`);
+      }
+    };
+
+    stateNode.invoke?.(state.context, controller.signal).then(
+      (result) => settle('onDone', result),
+      (error: unknown) => settle('onError', error),
+    );
+    return () => controller.abort();
+  };
+
+  const availableTransitions = ({
+    guarded = false,
+    payload,
+  }: { guarded?: boolean; payload?: unknown } = {}) => {
+    const events = regions.flatMap((region) =>
+      getSources(region.transitions, stateOf(state.currentState, region)).flatMap((path) =>
+        getTransitions(getNode(region, path)).map(([event]) => event),
+      ),
+    );
+    return [...new Set(events)].filter(
+      (event) => !guarded || regions.some((region) => findTransition(region, event, payload)),
+    );
+  };
+
+  /**
+   * Apply onInvalidTransition policy
+   * @return false
+   */
+  const reject = (event: string, message: string) => {
+    metrics?.invalid(event);
+    const { onInvalidTransition } = options();
+    if (typeof onInvalidTransition === 'function') {
+      onInvalidTransition({ from: state.currentState, event, available: availableTransitions() });
+    } else if (onInvalidTransition === 'throw') {
+      throw new Error(message);
+    } else if (onInvalidTransition === 'warn') {
+      warn(message);
+    }
+    return false;
+  };
+
+  const transition = (
+    to: string,
+    ...args:
+      | [callback?: (newState: TValue) => void]
+      | [payload: unknown, callback?: (newState: TValue) => void]
+  ) => {
+    const [payload, callback] =
+      args.length === 1 && typeof args[0] === 'function' ? [undefined, args[0]] : args;
+    recorder?.record({ event: to, payload, timestamp: clock.now() });
+    const found = regions.flatMap((region) => findTransition(region, to, payload) ?? []);
+
+    if (found.length === 0) {
+      return reject(to, `Invalid transition from ${format(state.currentState)} to ${to}`);
+    }
+
+    if (!apply(to, found, payload)) {
+      return false;
+    }
+    if (callback) {
+      callback(state.currentState);
+    }
+    return true;
+  };
+
+  const moveTo = (
+    action: FSMAction<TValue, TContext> & { type: 'UNDO' | 'REDO' | 'JUMP' },
+    message?: string,
+  ) => {
+    const next = FSMReducer(state, action);
+    const { logLevel, logger } = options();
+    if (message && logLevel === 'debug') {
+      logger.log(`${message} from ${format(state.currentState)} to ${format(next.currentState)}`);
+    }
+    const changes = regions
+      .filter(
+        (region) => stateOf(state.currentState, region) !== stateOf(next.currentState, region),
+      )
+      .map((region) =>
+        change(region, {
+          from: stateOf(state.currentState, region),
+          to: stateOf(next.currentState, region),
+          context: next.context,
+        }),
+      );
+    dispatch(action, [
+      ...changes.flatMap((actions) => actions[0]),
+      ...changes.flatMap((actions) => actions[1]),
+    ]);
+    return true;
+  };
+
+  const undo = () => {
+    recorder?.record({ type: 'UNDO', timestamp: clock.now() });
+    if (state.history.length === 0) {
+      return reject('undo', 'No history to undo');
+    }
+
+    const to = FSMReducer(state, { type: 'UNDO' }).currentState;
+    return intercept({ from: state.currentState, event: 'undo', to }, (rewritten) => {
+      if (format(rewritten) !== format(to)) {
+        return reject('undo', `Target of undo can't be rewritten to ${format(rewritten)}`);
+      }
+      return moveTo({ type: 'UNDO' });
+    });
+  };
+
+  const redo = () => {
+    recorder?.record({ type: 'REDO', timestamp: clock.now() });
+    if (state.future.length === 0) {
+      return reject('redo', 'No history to redo');
+    }
+
+    return moveTo({ type: 'REDO' }, 'Redoing');
+  };
+
+  const jumpTo = (index: number) => {
+    recorder?.record({ type: 'JUMP', index, timestamp: clock.now() });
+    if (index === state.history.length) {
+      return false;
+    }
+    if (
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index > state.history.length + state.future.length
+    ) {
+      return reject('jumpTo', `Invalid history index ${index}`);
+    }
+
+    return moveTo({ type: 'JUMP', index }, 'Jumping');
+  };
+
+  activePaths(state.currentState).forEach((path) => metrics?.enter(path));
+  pendingActions.push(...enterCurrent());
+  if (!deferActions) {
+    flush();
+  }
+
+  return {
+    getSnapshot: () => state,
+    transition: (to, ...args) => run(() => transition(to, ...args)),
+    send: (events) =>
+      events.map((item) =>
+        typeof item === 'string'
+          ? run(() => transition(item))
+          : run(() => transition(item.event, item.payload)),
+      ),
+    matches: (path: string) =>
+      regions.some((region) =>
+        getAncestors(fullPath(region, stateOf(state.currentState, region))).includes(path),
+      ),
+    undo: () => run(undo),
+    redo: () => run(redo),
+    jumpTo: (index) => run(() => jumpTo(index)),
+    canUndo: () => state.history.length > 0,
+    canRedo: () => state.future.length > 0,
+    isDone: () => isFinal(state.currentState),
+    whenDone: () =>
+      isFinal(state.currentState)
+        ? Promise.resolve(state.context)
+        : new Promise((resolve) => {
+            const listener = (context: TContext) => {
+              doneListeners.delete(listener);
+              resolve(context);
+            };
+            doneListeners.add(listener);
+          }),
+    availableTransitions,
+    getHistory: () => state.history.map((entry) => entry.from),
+    getFuture: () => state.future.map((entry) => entry.to),
+    getTransitionLog: () =>
+      state.history.map(({ from, to, event, timestamp, payload }) => ({
+        from,
+        to,
+        event,
+        timestamp,
+        payload,
+      })),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    flush,
+    stop: () => {
+      [...cleanups.values()].reverse().forEach((cleanup) => cleanup());
+      cleanups.clear();
+      pendingActions = enterCurrent();
+    },
+  };
+};
@@ -0,0 +1,151 @@
+import type { FSMClock } from './machine';
+
+/**
+ * Time spent in state during period of summary
+ *
+ * @property entries - times state was entered
+ * @property exits - times state was left
+ * @property totalTime - time of visits left during period, including their time before period
+ * @property averageTime - totalTime per exit. 0 without exits
+ * @property enteredAt - time of current visit start. Set only while machine is in state
+ *
+ * @version 0.2.0
+ */
+export type FSMStateMetrics = {
+  entries: number;
+  exits: number;
+  totalTime: number;
+  averageTime: number;
+  enteredAt?: number;
+};
+
+/**
+ * Serializable metrics of period between flushes
+ *
+ * @property from - start of period. Creation or last flush
+ * @property to - end of period. Time of summary
+ * @property states - dwell time of states by path. Parent states and states of regions are included: 'checkout', 'checkout.payment'
+ * @property transitions - count of applied transitions by event name
+ * @property invalidTransitions - count of rejected transitions by event name. 'undo', 'redo' and 'jumpTo' for rejected time travel
+ *
+ * @version 0.2.0
+ */
+export type FSMMetricsSummary = {
+  from: number;
+  to: number;
+  states: Record<string, FSMStateMetrics>;
+  transitions: Record<string, number>;
+  invalidTransitions: Record<string, number>;
+};
+
+/**
+ * Collector of machine metrics. Pass it as metrics in config of one machine, the machine records its events
+ *
+ * @version 0.2.0
+ */
+export type FSMMetrics = {
+  /**
+   * Record entry of state. Called by machine
+   */
+  enter: (state: string) => void;
+
+  /**
+   * Record exit of state. Called by machine
+   */
+  exit: (state: string) => void;
+
+  /**
+   * Record applied transition. Called by machine
+   */
+  transition: (event: string) => void;
+
+  /**
+   * Record rejected transition or undo. Called by machine
+   */
+  invalid: (event: string) => void;
+
+  /**
+   * Summary of current period
+   */
+  getSummary: () => FSMMetricsSummary;
+
+  /**
+   * Summary of current period, then start new one. Current visits continue in new period
+   */
+  flush: () => FSMMetricsSummary;
+};
+
+/**
+ * Create collector of dwell time and transition counts
+ *
+ * @property clock - time provider of timestamps. Date.now by default
+ *
+ * @example
+ *   const metrics = createFSMMetrics();
+ *   const machine = createMachine('idle', transitions, { metrics });
+ *   machine.transition('typing');
+ *   report(metrics.flush());
+ *
+ * @version 0.2.0
+ */
+export const createFSMMetrics = ({
+  clock = { now: () => Date.now() },
+}: { clock?: Pick<FSMClock, 'now'> } = {}): FSMMetrics => {
+  let from = clock.now();
+  let states: Record<string, Omit<FSMStateMetrics, 'averageTime'>> = {};
+  let transitions: Record<string, number> = {};
+  let invalidTransitions: Record<string, number> = {};
+
+  const getState = (state: string) => (states[state] ??= { entries: 0, exits: 0, totalTime: 0 });
+
+  const getSummary = (): FSMMetricsSummary => ({
+    from,
+    to: clock.now(),
+    states: Object.fromEntries(
+      Object.entries(states).map(([state, metrics]) => [
+        state,
+        { ...metrics, averageTime: metrics.exits ? metrics.totalTime / metrics.exits : 0 },
+      ]),
+    ),
+    transitions: { ...transitions },
+    invalidTransitions: { ...invalidTransitions },
+  });
+
+  return {
+    enter: (state) => {
+      const metrics = getState(state);
+      metrics.entries++;
+      metrics.enteredAt = clock.now();
+    },
+    exit: (state) => {
+      const metrics = getState(state);
+      if (metrics.enteredAt !== undefined) {
+        metrics.exits++;
+        metrics.totalTime += clock.now() - metrics.enteredAt;
+        delete metrics.enteredAt;
+      }
+    },
+    transition: (event) => {
+      transitions[event] = (transitions[event] ?? 0) + 1;
+    },
+    invalid: (event) => {
+      invalidTransitions[event] = (invalidTransitions[event] ?? 0) + 1;
+    },
+    getSummary,
+    flush: () => {
+      const summary = getSummary();
+      from = summary.to;
+      states = Object.fromEntries(
+        Object.entries(states)
+          .filter(([, { enteredAt }]) => enteredAt !== undefined)
+          .map(([state, { enteredAt }]) => [
+            state,
+            { entries: 0, exits: 0, totalTime: 0, enteredAt },
+          ]),
+      );
+      transitions = {};
+      invalidTransitions = {};
+      return summary;
+    },
+  };
+};
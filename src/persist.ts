@@ -0,0 +1,124 @@
+import type { FSMState } from './machine';
+
+/**
+ * Storage of persisted machines. Same shape as Web Storage, so localStorage fits as is
+ *
+ * @version 0.2.0
+ */
+export type FSMStorageAdapter = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+/**
+ * Stored snapshot of machine
+ *
+ * @property version - version of persist config the state was saved with
+ * @property state - current state, context, history and future of machine
+ *
+ * @version 0.2.0
+ */
+export type FSMPersistedState<TState = unknown, TContext = unknown> = {
+  version: number;
+  state: FSMState<TState, TContext>;
+};
+
+/**
+ * @property key - storage key of machine
+ * @property storage - storage adapter. Default: localStorageAdapter()
+ * @property version - version of stored state. Bump it when transitions map or context change. Default: 0
+ * @property migrate - convert state saved with other version. Return undefined to drop it. Without migrate such state is dropped
+ *
+ * @example { key: 'wizard', version: 2, migrate: (state, version) => (version === 1 ? { ...state, context: {} } : undefined) }
+ *
+ * @version 0.2.0
+ */
+export type FSMPersistConfig = {
+  key: string;
+  storage?: FSMStorageAdapter;
+  version?: number;
+  migrate?: (
+    state: FSMState<unknown, unknown>,
+    version: number,
+  ) => FSMState<unknown, unknown> | undefined;
+};
+
+/**
+ * Adapter over Web Storage. Storage is resolved on every call, so it is safe to create during SSR
+ */
+const webStorageAdapter = (getStorage: () => Storage): FSMStorageAdapter => ({
+  getItem: (key) => getStorage().getItem(key),
+  setItem: (key, value) => getStorage().setItem(key, value),
+  removeItem: (key) => getStorage().removeItem(key),
+});
+
+/**
+ * Storage adapter over window.localStorage. Survives reload and browser restart
+ *
+ * @version 0.2.0
+ */
+export const localStorageAdapter = (): FSMStorageAdapter =>
+  webStorageAdapter(() => window.localStorage);
+
+/**
+ * Storage adapter over window.sessionStorage. Survives reload of the tab
+ *
+ * @version 0.2.0
+ */
+export const sessionStorageAdapter = (): FSMStorageAdapter =>
+  webStorageAdapter(() => window.sessionStorage);
+
+/**
+ * In-memory storage adapter. For tests and non-browser environments
+ *
+ * @version 0.2.0
+ */
+export const memoryStorageAdapter = (): FSMStorageAdapter => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * Read stored state. Migrate it when saved with other version
+ *
+ * @return state or undefined when nothing is stored or state is dropped
+ *
+ * @version 0.2.0
+ */
+export const loadPersistedState = ({
+  key,
+  storage = localStorageAdapter(),
+  version = 0,
+  migrate,
+}: FSMPersistConfig): FSMState<unknown, unknown> | undefined => {
+  const stored = storage.getItem(key);
+  if (stored === null) {
+    return undefined;
+  }
+
+  const persisted = JSON.parse(stored) as FSMPersistedState;
+  return persisted.version === version
+    ? persisted.state
+    : migrate?.(persisted.state, persisted.version);
+};
+
+/**
+ * Save state of machine with version of persist config
+ *
+ * @version 0.2.0
+ */
+export const savePersistedState = (
+  { key, storage = localStorageAdapter(), version = 0 }: FSMPersistConfig,
+  state: FSMState<unknown, unknown>,
+) => {
+  storage.setItem(key, JSON.stringify({ version, state } satisfies FSMPersistedState));
+};
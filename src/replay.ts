@@ -0,0 +1,137 @@
+import { createUntypedMachine, FSMInvalidTransition, FSMState } from './machine';
+
+/**
+ * Event of recorded log. Log is JSON-serializable when payloads are
+ * Transition has no type, so log can be written by hand: { event: 'submit', timestamp: 0 }
+ *
+ * @property type - TRANSITION, UNDO, REDO or JUMP. TRANSITION when omitted
+ * @property event - transition name. after(delay), onDone and onError for transitions of state itself
+ * @property payload - payload of transition
+ * @property index - history index of jumpTo
+ * @property timestamp - time of call. Milliseconds, clock.now() of machine
+ *
+ * @version 0.2.0
+ */
+export type FSMRecordedEvent =
+  | { type?: 'TRANSITION'; event: string; payload?: unknown; timestamp: number }
+  | { type: 'UNDO' | 'REDO'; timestamp: number }
+  | { type: 'JUMP'; index: number; timestamp: number };
+
+/**
+ * Result of replay
+ *
+ * @property states - snapshots of FSM. Initial snapshot first, then snapshot after every event of log
+ * @property invalid - first event rejected at its point of log, with its index. Rejected events don't change state
+ *
+ * @version 0.2.0
+ */
+export type FSMReplayResult<TContext = undefined> = {
+  states: FSMState<string | Record<string, string>, TContext>[];
+  invalid?: FSMInvalidTransition & { index: number };
+};
+
+/**
+ * Log of machine calls. Pass it as recorder in config of one machine, the machine records its calls
+ *
+ * @version 0.2.0
+ */
+export type FSMEventRecorder = {
+  /**
+   * Record call of transition, undo, redo or jumpTo. Called by machine
+   */
+  record: (event: FSMRecordedEvent) => void;
+
+  /**
+   * Recorded events, oldest first
+   */
+  getEvents: () => FSMRecordedEvent[];
+
+  /**
+   * Drop recorded events
+   */
+  clear: () => void;
+};
+
+/**
+ * Create log of machine calls for replay. Every call is recorded when it runs: rejected ones,
+ * undo, redo and jumpTo too. Log doesn't depend on history, so maxHistoryLength doesn't cut it
+ * Record from creation of machine to replay from its initial state
+ *
+ * @example
+ *   const recorder = createEventRecorder();
+ *   const fsm = useFSM('idle', transitions, { recorder });
+ *   reportBug({ log: JSON.stringify(recorder.getEvents()) });
+ *
+ * @version 0.2.0
+ */
+export const createEventRecorder = (): FSMEventRecorder => {
+  let events: FSMRecordedEvent[] = [];
+
+  return {
+    record: (event) => {
+      events.push(event);
+    },
+    getEvents: () => [...events],
+    clear: () => {
+      events = [];
+    },
+  };
+};
+
+/**
+ * Run recorded log through machine of transitions map, without React, actions, timers, invoke and middleware
+ * Guards and assign are called like in machine. Events of after, onDone and onError are applied as transitions of their states
+ *
+ * @property initialState - initial state of FSM. Object of region states for parallel FSM
+ * @property transitions - map of states and transitions. Map of regions for parallel FSM
+ * @property log - events of createEventRecorder
+ * @property context - initial context of FSM
+ *
+ * @example
+ *   const { states, invalid } = replay('idle', transitions, JSON.parse(bugReport.log));
+ *   states.at(-1)?.currentState; // 'fail'
+ *   invalid; // { index: 3, from: 'fail', event: 'success', available: ['restart'] }
+ *
+ * @version 0.2.0
+ */
+export const replay = <TContext = undefined>(
+  initialState: string | Record<string, string>,
+  transitions: object,
+  log: FSMRecordedEvent[],
+  context?: TContext,
+): FSMReplayResult<TContext> => {
+  let index = 0;
+  const result: FSMReplayResult<TContext> = { states: [] };
+  // actions are deferred and never flushed, timestamps of history come from log
+  const machine = createUntypedMachine(initialState, transitions, {
+    context,
+    deferActions: true,
+    automaticEvents: true,
+    clock: {
+      now: () => log[index]?.timestamp ?? 0,
+      setTimeout: () => 0,
+      clearTimeout: () => {},
+    },
+    onInvalidTransition: (invalid) => {
+      result.invalid ??= { ...invalid, index };
+    },
+  });
+  result.states.push(machine.getSnapshot());
+
+  const send = machine.send as (events: { event: string; payload?: unknown }[]) => boolean[];
+  for (; index < log.length; index++) {
+    const item = log[index];
+    if (item.type === undefined || item.type === 'TRANSITION') {
+      send([{ event: item.event, payload: item.payload }]);
+    } else if (item.type === 'JUMP') {
+      machine.jumpTo(item.index);
+    } else if (item.type === 'UNDO') {
+      machine.undo();
+    } else {
+      machine.redo();
+    }
+    result.states.push(machine.getSnapshot());
+  }
+
+  return result;
+};
@@ -0,0 +1,143 @@
+import {
+  createUntypedMachine,
+  FSMMachine,
+  FSMMachineConfig,
+  ParallelInitialState,
+  ParallelState,
+  ParallelTransitions,
+  Regions,
+  StatePath,
+  Transitions,
+  ValidRegions,
+  ValidTransitions,
+} from './machine';
+import { analyzeMachine } from './analyze';
+
+/**
+ * Arguments machine was created with. Shown by devtools
+ *
+ * @version 0.2.0
+ */
+export type FSMMachineDefinition = {
+  initialState: string | Record<string, string>;
+  transitions: object;
+};
+
+/**
+ * Machine shared by components. Same API as machine of createMachine
+ *
+ * @property id - id of machine in devtools. From config
+ * @property definition - initial state and transitions map
+ *
+ * @version 0.2.0
+ */
+export type FSMStore<TState, TTransitionMap, TContext = undefined> = FSMMachine<
+  TState,
+  TTransitionMap,
+  TContext
+> & {
+  id?: string;
+  definition: FSMMachineDefinition;
+};
+
+/**
+ * Configuration of createFSMStore and useFSM
+ *
+ * @property id - id of machine in devtools. Generated when not set
+ *
+ * @version 0.2.0
+ */
+export type FSMStoreConfig<TContext = undefined> = Omit<
+  FSMMachineConfig<TContext>,
+  'deferActions'
+> & {
+  id?: string;
+};
+
+/**
+ * Named stores of FSMProvider. Any store fits
+ *
+ * @example { checkout: checkoutStore, player: playerStore }
+ *
+ * @version 0.2.0
+ */
+export type FSMStores = Record<string, FSMStore<unknown, unknown, unknown>>;
+
+/**
+ * FSMStore without types of states and transitions
+ *
+ * @version 0.2.0
+ */
+export type UntypedStore<TContext = undefined> = FSMStore<
+  string | Record<string, string>,
+  Record<string, object>,
+  TContext
+>;
+
+/**
+ * Create machine with diagnostics of analyzeMachine logged on debug logLevel. Used by createFSMStore and useFSM
+ *
+ * @version 0.2.0
+ */
+export const createUntypedStore = <TContext = undefined>(
+  initialState: string | Record<string, string>,
+  transitions: object,
+  config: FSMStoreConfig<TContext> & FSMMachineConfig<TContext> = {},
+): UntypedStore<TContext> => {
+  const { logLevel, logger = console } = config;
+  if (logLevel === 'debug') {
+    analyzeMachine(initialState, transitions).diagnostics.forEach(({ message }) =>
+      logger.log(message),
+    );
+  }
+  return {
+    ...createUntypedMachine(initialState, transitions, config),
+    id: config.id,
+    definition: { initialState, transitions },
+  };
+};
+
+/**
+ * Create machine shared by many components. Create it outside of components, read it with useFSMStore and useFSMSelector
+ * Same arguments as useFSM. Config of FSMProvider is not applied: store is created outside of React
+ *
+ * @property initialState - initial state of FSM. Object of region states for parallel FSM
+ * @property transitions - map of states and transitions. Map of regions for parallel FSM
+ * @property config - configuration for FSM and initial context
+ *
+ * Actions run right after change, like in createMachine
+ *
+ * @example
+ *   const checkoutStore = createFSMStore('cart', {
+ *     cart: { checkout: 'payment' },
+ *     payment: { back: 'cart', pay: 'done' },
+ *     done: {},
+ *   });
+ *
+ *   const Header = () => <p>{useFSMSelector(checkoutStore, (state) => state.currentState)}</p>;
+ *   const Sidebar = () => {
+ *     const { transition } = useFSMStore(checkoutStore);
+ *     return <button onClick={() => transition('pay')}>Pay</button>;
+ *   };
+ *
+ * @version 0.2.0
+ */
+export function createFSMStore<TState extends string, TTransitionMap, TContext = undefined>(
+  initialState: NoInfer<Exclude<TState, '*'>>,
+  transitions: TTransitionMap &
+    Transitions<TState, TContext> &
+    ValidTransitions<TTransitionMap, NoInfer<TState>, NoInfer<TContext>>,
+  config?: FSMStoreConfig<TContext>,
+): FSMStore<StatePath<TTransitionMap>, TTransitionMap, TContext>;
+export function createFSMStore<TRegions, TContext = undefined>(
+  initialState: NoInfer<ParallelInitialState<TRegions>>,
+  transitions: TRegions & Regions<TContext> & ValidRegions<NoInfer<TRegions>, NoInfer<TContext>>,
+  config?: FSMStoreConfig<TContext>,
+): FSMStore<ParallelState<TRegions>, ParallelTransitions<TRegions>, TContext>;
+export function createFSMStore<TContext = undefined>(
+  initialState: string | Record<string, string>,
+  transitions: object,
+  config?: FSMStoreConfig<TContext>,
+): UntypedStore<TContext> {
+  return createUntypedStore(initialState, transitions, config);
+}
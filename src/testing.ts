@@ -0,0 +1,267 @@
+import {
+  getSources,
+  getStateNode,
+  getTarget,
+  getTransitions,
+  resolveInitial,
+  resolveTarget,
+  StateConfig,
+} from './machine';
+
+/**
+ * Step of test path
+ *
+ * @property event - transition to call
+ * @property state - state after transition. Object of region states for parallel FSM
+ *
+ * @version 0.2.0
+ */
+export type FSMTestStep = {
+  event: string;
+  state: string | Record<string, string>;
+};
+
+/**
+ * Events leading from initial state to state
+ *
+ * @property state - last state of path. Initial state for empty path
+ * @property steps - transitions and states they lead to
+ *
+ * @version 0.2.0
+ */
+export type FSMTestPath = {
+  state: string | Record<string, string>;
+  steps: FSMTestStep[];
+};
+
+/**
+ * Region of FSM with its initial atomic state. Simple FSM has one region without name
+ */
+type Region = { name?: string; transitions: object; initial: string };
+
+const getRegions = (initialState: string | Record<string, string>, transitions: object) =>
+  typeof initialState === 'string'
+    ? [{ transitions, initial: resolveInitial(transitions, initialState) }]
+    : Object.entries<object>(transitions as Record<string, object>).map(
+        ([name, region]): Region => ({
+          name,
+          transitions: region,
+          initial: resolveInitial(region, initialState[name]),
+        }),
+      );
+
+const getNode = ({ transitions }: Region, path: string) =>
+  getStateNode(transitions, path) as StateConfig<string>;
+
+/**
+ * Find transition of event in state, its ancestors or wildcard, like transition of machine. Guards are treated as passing
+ */
+const handle = (region: Region, state: string, event: string) => {
+  for (const source of getSources(region.transitions, state)) {
+    const edge = getTransitions(getNode(region, source)).find(([name]) => name === event)?.[1];
+    if (edge) {
+      const target = resolveTarget(region.transitions, source, getTarget(edge));
+      return { source, target: resolveInitial(region.transitions, target) };
+    }
+  }
+};
+
+/**
+ * Events of states and their ancestors in all regions
+ */
+const getEvents = (regions: Region[], states: string[]) =>
+  new Set(
+    regions.flatMap((region, index) =>
+      getSources(region.transitions, states[index]).flatMap((path) =>
+        getTransitions(getNode(region, path)).map(([event]) => event),
+      ),
+    ),
+  );
+
+/**
+ * Breadth-first walk over states reachable by transitions. Calls visit with shortest steps to every state
+ */
+const walk = (
+  initialState: string | Record<string, string>,
+  transitions: object,
+  visit: (
+    states: string[],
+    steps: FSMTestStep[],
+    regions: Region[],
+    toValue: (states: string[]) => FSMTestStep['state'],
+  ) => void,
+) => {
+  const regions = getRegions(initialState, transitions);
+  const toValue = (states: string[]): FSMTestStep['state'] =>
+    typeof initialState === 'string'
+      ? states[0]
+      : Object.fromEntries(regions.map(({ name }, index) => [name, states[index]]));
+
+  const initial = regions.map(({ initial }) => initial);
+  const queue = [{ states: initial, steps: [] as FSMTestStep[] }];
+  const visited = new Set([JSON.stringify(initial)]);
+
+  for (const { states, steps } of queue) {
+    visit(states, steps, regions, toValue);
+    for (const event of getEvents(regions, states)) {
+      const next = regions.map(
+        (region, index) => handle(region, states[index], event)?.target ?? states[index],
+      );
+      if (!visited.has(JSON.stringify(next))) {
+        visited.add(JSON.stringify(next));
+        queue.push({ states: next, steps: [...steps, { event, state: toValue(next) }] });
+      }
+    }
+  }
+};
+
+/**
+ * Shortest event path to every reachable state. Paths are sorted by length, initial state first
+ * Only transitions are used: after timers and invoke results are not walked. Guards are treated as passing
+ *
+ * @property initialState - initial state of FSM. Object of region states for parallel FSM
+ * @property transitions - map of states and transitions. Map of regions for parallel FSM
+ *
+ * @example
+ *   getShortestPaths('idle', {
+ *     idle: { typing: 'typing' },
+ *     typing: { submit: 'done', canceling: 'idle' },
+ *     done: {},
+ *   });
+ *   // [
+ *   //   { state: 'idle', steps: [] },
+ *   //   { state: 'typing', steps: [{ event: 'typing', state: 'typing' }] },
+ *   //   { state: 'done', steps: [{ event: 'typing', state: 'typing' }, { event: 'submit', state: 'done' }] },
+ *   // ]
+ *
+ * @version 0.2.0
+ */
+export const getShortestPaths = (
+  initialState: string | Record<string, string>,
+  transitions: object,
+): FSMTestPath[] => {
+  const paths: FSMTestPath[] = [];
+  walk(initialState, transitions, (states, steps, _, toValue) =>
+    paths.push({ state: toValue(states), steps }),
+  );
+  return paths;
+};
+
+/**
+ * Event paths covering every transition of transitions map. Every transition is taken at least once, on the shortest way to its source state
+ * Paths that are the start of other path are dropped
+ *
+ * @property initialState - initial state of FSM. Object of region states for parallel FSM
+ * @property transitions - map of states and transitions. Map of regions for parallel FSM
+ *
+ * @example
+ *   getTransitionPaths('idle', {
+ *     idle: { typing: 'typing' },
+ *     typing: { submit: 'done', canceling: 'idle' },
+ *     done: {},
+ *   });
+ *   // [
+ *   //   { state: 'idle', steps: [{ event: 'typing', state: 'typing' }, { event: 'canceling', state: 'idle' }] },
+ *   //   { state: 'done', steps: [{ event: 'typing', state: 'typing' }, { event: 'submit', state: 'done' }] },
+ *   // ]
+ *
+ * @version 0.2.0
+ */
+export const getTransitionPaths = (
+  initialState: string | Record<string, string>,
+  transitions: object,
+): FSMTestPath[] => {
+  const covered = new Set<string>();
+  const paths: FSMTestPath[] = [];
+
+  walk(initialState, transitions, (states, steps, regions, toValue) => {
+    for (const event of getEvents(regions, states)) {
+      const handled = regions.map((region, index) => {
+        const found = handle(region, states[index], event);
+        return found && { key: `${region.name ?? ''}:${found.source}:${event}`, ...found };
+      });
+      if (handled.every((found) => !found || covered.has(found.key))) {
+        continue;
+      }
+      handled.forEach((found) => found && covered.add(found.key));
+      const next = handled.map((found, index) => found?.target ?? states[index]);
+      paths.push({ state: toValue(next), steps: [...steps, { event, state: toValue(next) }] });
+    }
+  });
+
+  return paths.filter(
+    (path) =>
+      !paths.some(
+        (other) =>
+          other !== path &&
+          other.steps.length > path.steps.length &&
+          path.steps.every((step, index) => step.event === other.steps[index].event),
+      ),
+  );
+};
+
+/**
+ * Part of useFSM or useFSMStore result used by replayPath. Result of renderHook fits
+ *
+ * @version 0.2.0
+ */
+export type FSMTestResult = {
+  current: { currentState: unknown; transition: (event: never) => boolean };
+};
+
+const formatState = (state: unknown) => (typeof state === 'string' ? state : JSON.stringify(state));
+
+const sameState = (actual: unknown, expected: string | Record<string, string>) =>
+  typeof expected === 'string'
+    ? actual === expected
+    : typeof actual === 'object' &&
+      actual !== null &&
+      Object.keys(actual).length === Object.keys(expected).length &&
+      Object.entries(expected).every(
+        ([region, state]) => (actual as Record<string, unknown>)[region] === state,
+      );
+
+/**
+ * Replay path against result of renderHook(useFSM). Every transition runs in act, state after it is asserted
+ * Throws when transition is rejected or FSM goes to other state. Empty path asserts initial state
+ *
+ * @property result - result of renderHook, in initial state
+ * @property path - path of getShortestPaths or getTransitionPaths
+ * @property act - act of testing library. Passed in, so fsm-hook doesn't depend on act of React 18.3
+ *
+ * @example
+ *   it.each(getTransitionPaths('idle', transitions))('should reach $state', (path) => {
+ *     const { result } = renderHook(() => useFSM('idle', transitions));
+ *     replayPath(result, path, act);
+ *   });
+ *
+ * @version 0.2.0
+ */
+export const replayPath = (
+  result: FSMTestResult,
+  path: FSMTestPath,
+  act: (callback: () => void) => void,
+) => {
+  if (!path.steps.length && !sameState(result.current.currentState, path.state)) {
+    throw new Error(
+      `Expected state ${formatState(path.state)}, got ${formatState(result.current.currentState)}`,
+    );
+  }
+
+  path.steps.forEach(({ event, state }) => {
+    let accepted = false;
+    act(() => {
+      accepted = (result.current.transition as (event: string) => boolean)(event);
+    });
+    if (!accepted) {
+      throw new Error(
+        `Transition ${event} from ${formatState(result.current.currentState)} was rejected`,
+      );
+    }
+    if (!sameState(result.current.currentState, state)) {
+      throw new Error(
+        `Expected state ${formatState(state)} after ${event}, got ${formatState(result.current.currentState)}`,
+      );
+    }
+  });
+};
@@ -0,0 +1,131 @@
+import {it, expect, describe} from 'vitest'
+import {analyzeMachine} from '../src';
+
+describe('analyzeMachine', () => {
+  it('should report unreachable states, dead ends and unused events', () => {
+    const analysis = analyzeMachine('idle', {
+      idle: {typing: 'typing'},
+      typing: {submit: 'done', canceling: 'idle'},
+      done: {},
+      lost: {back: 'idle', reset: 'lost'},
+    });
+
+    expect(analysis.unreachableStates).to.eql(['lost']);
+    expect(analysis.deadEndStates).to.eql(['done']);
+    expect(analysis.unusedEvents).to.eql(['back', 'reset']);
+    expect(analysis.diagnostics).to.eql([
+      {type: 'unreachable', message: 'Unreachable state lost', states: ['lost']},
+      {type: 'deadEnd', message: 'Dead-end state done', states: ['done']},
+      {type: 'unusedEvent', message: 'Unused event back', states: ['lost'], event: 'back'},
+      {type: 'unusedEvent', message: 'Unused event reset', states: ['lost'], event: 'reset'},
+    ]);
+  });
+
+  it('should report unknown targets and skip them', () => {
+    const analysis = analyzeMachine({form: 'a', player: 'off'}, {
+      form: {a: {go: 'zzz', next: 'b'}, b: {initial: 'missing', states: {c: {}}, back: 'a'}},
+      player: {off: {after: {1000: 'on'}}},
+    });
+
+    expect(analysis.unknownTargets).to.eql([
+      {state: 'form.a', event: 'go', target: 'zzz'},
+      {state: 'form.a', event: 'next', target: 'b.missing'},
+      {state: 'player.off', event: 'after(1000)', target: 'on'},
+    ]);
+    expect(analysis.unreachableStates).to.eql(['form.b.c']);
+    expect(analysis.diagnostics.filter(({type}) => type === 'unknownTarget')).to.eql([
+      {type: 'unknownTarget', message: 'Unknown target zzz of go in form.a', states: ['form.a'], event: 'go', target: 'zzz'},
+      {
+        type: 'unknownTarget',
+        message: 'Unknown target b.missing of next in form.a',
+        states: ['form.a'],
+        event: 'next',
+        target: 'b.missing',
+      },
+      {
+        type: 'unknownTarget',
+        message: 'Unknown target on of after(1000) in player.off',
+        states: ['player.off'],
+        event: 'after(1000)',
+        target: 'on',
+      },
+    ]);
+  });
+
+  it('should analyze unknown initial state without crash', () => {
+    expect(analyzeMachine('missing', {a: {go: 'a'}}).unreachableStates).to.eql(['a']);
+  });
+
+  it('should not report final states as dead ends', () => {
+    const analysis = analyzeMachine('idle', {
+      idle: {submit: 'done', fail: 'stuck'},
+      done: {final: true},
+      stuck: {},
+    });
+
+    expect(analysis.deadEndStates).to.eql(['stuck']);
+    expect(analysis.unusedEvents).to.eql([]);
+  });
+
+  it('should follow wildcard transitions', () => {
+    const analysis = analyzeMachine('idle', {
+      '*': {logout: 'signedOut'},
+      idle: {typing: 'typing'},
+      typing: {},
+      signedOut: {},
+    });
+
+    expect(analysis.unreachableStates).to.eql([]);
+    expect(analysis.deadEndStates).to.eql(['signedOut']);
+    expect(analysis.unusedEvents).to.eql([]);
+  });
+
+  it('should find strongly connected components', () => {
+    const analysis = analyzeMachine('a', {
+      a: {next: 'b'},
+      b: {next: 'c', loop: 'b'},
+      c: {back: 'b', next: 'd'},
+      d: {next: 'e'},
+      e: {back: 'd'},
+    });
+
+    expect(analysis.stronglyConnectedComponents).to.eql([['d', 'e'], ['b', 'c'], ['a']]);
+    expect(analysis.deadEndStates).to.eql([]);
+    expect(analysis.diagnostics).to.eql([]);
+  });
+
+  it('should analyze nested states with bubbling, after and invoke', () => {
+    const analysis = analyzeMachine('cart', {
+      cart: {checkout: 'checkout'},
+      checkout: {
+        cancel: 'cart',
+        initial: 'payment',
+        states: {
+          payment: {invoke: () => Promise.resolve(), onDone: 'confirmed', onError: 'failed'},
+          failed: {after: {1000: 'payment'}},
+          confirmed: {},
+          shipping: {},
+        },
+      },
+    });
+
+    expect(analysis.unreachableStates).to.eql(['checkout.shipping']);
+    expect(analysis.deadEndStates).to.eql([]);
+    expect(analysis.unusedEvents).to.eql([]);
+  });
+
+  it('should analyze parallel regions', () => {
+    const analysis = analyzeMachine(
+      {playback: 'paused', volume: 'muted'},
+      {
+        playback: {paused: {play: 'playing'}, playing: {pause: 'paused'}},
+        volume: {muted: {unmute: 'unmuted'}, unmuted: {}, broken: {mute: 'muted'}},
+      },
+    );
+
+    expect(analysis.unreachableStates).to.eql(['volume.broken']);
+    expect(analysis.deadEndStates).to.eql(['volume.unmuted']);
+    expect(analysis.unusedEvents).to.eql(['mute']);
+    expect(analysis.stronglyConnectedComponents).to.deep.include(['playback.paused', 'playback.playing']);
+  });
+});
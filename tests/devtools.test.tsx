@@ -0,0 +1,285 @@
+import {it, expect, describe, vi} from 'vitest'
+import {StrictMode} from 'react';
+import {render, screen, fireEvent, act} from '@testing-library/react';
+import {
+  createFSMInspector,
+  createFSMStore,
+  FSMProvider,
+  memoryDevtoolsAdapter,
+  reduxDevtoolsAdapter,
+  ReduxDevtoolsMessage,
+  useFSM,
+  useFSMStore,
+} from '../src';
+
+const transitions = {
+  idle: {typing: 'typing'},
+  typing: {submit: 'done', canceling: 'idle'},
+  done: {},
+} as const;
+
+describe('createFSMInspector', () => {
+  it('should keep registry of machines', () => {
+    const inspector = createFSMInspector();
+    const store = createFSMStore('idle', transitions, {id: 'form'});
+
+    const unregister = inspector.register(store);
+    store.transition('typing', 'payload');
+
+    expect(inspector.getMachines()).toEqual([{
+      id: 'form',
+      definition: {initialState: 'idle', transitions},
+      state: store.getSnapshot(),
+      log: store.getTransitionLog(),
+    }]);
+
+    unregister();
+
+    expect(inspector.getMachines()).toEqual([]);
+  });
+
+  it('should emit events to adapters', () => {
+    const inspector = createFSMInspector();
+    const devtools = memoryDevtoolsAdapter();
+    const store = createFSMStore('idle', transitions);
+
+    const disconnect = inspector.connect(devtools);
+    const unregister = inspector.register(store);
+    store.transition('typing');
+    store.undo();
+    unregister();
+    disconnect();
+    inspector.register(store);
+
+    expect(devtools.events.map((event) => event.type === 'action' ? event.action.type : event.type))
+      .toEqual(['register', 'TRANSITION', 'UNDO', 'unregister']);
+    expect(devtools.events[1]).toMatchObject({id: 'machine-1', state: {currentState: 'typing'}});
+  });
+
+  it('should count registrations of the same machine', () => {
+    const inspector = createFSMInspector();
+    const store = createFSMStore('idle', transitions, {id: 'form'});
+    const other = createFSMStore('idle', transitions, {id: 'form'});
+
+    const first = inspector.register(store);
+    const second = inspector.register(store, 'ignored');
+    inspector.register(other);
+    first();
+    first();
+
+    expect(inspector.getMachines().map(({id}) => id)).toEqual(['form', 'form:2']);
+
+    second();
+
+    expect(inspector.getMachines().map(({id}) => id)).toEqual(['form:2']);
+  });
+
+  it('should jump machine by id', () => {
+    const inspector = createFSMInspector();
+    const store = createFSMStore('idle', transitions);
+    inspector.register(store, 'form');
+    store.transition('typing');
+    store.transition('submit');
+
+    expect(inspector.jumpTo('form', 1)).toBe(true);
+    expect(store.getSnapshot().currentState).toBe('typing');
+    expect(inspector.jumpTo('missing', 1)).toBe(false);
+  });
+});
+
+describe('FSMProvider inspector', () => {
+  const Form = () => {
+    const {currentState, transition} = useFSM('idle', transitions, {id: 'form'});
+    return <button onClick={() => transition('typing')}>{currentState}</button>;
+  };
+
+  it('should register mounted machines of useFSM', () => {
+    const inspector = createFSMInspector();
+    const devtools = memoryDevtoolsAdapter();
+    inspector.connect(devtools);
+
+    const {unmount} = render(
+      <StrictMode>
+        <FSMProvider inspector={inspector}>
+          <FSMProvider config={{logLevel: 'none'}}>
+            <Form/>
+          </FSMProvider>
+        </FSMProvider>
+      </StrictMode>,
+    );
+    fireEvent.click(screen.getByText('idle'));
+
+    expect(inspector.getMachines()).toMatchObject([{id: 'form', state: {currentState: 'typing'}}]);
+
+    unmount();
+
+    expect(inspector.getMachines()).toEqual([]);
+    expect(devtools.events.at(-1)).toEqual({type: 'unregister', id: 'form'});
+  });
+
+  it('should register named stores with their names', () => {
+    const inspector = createFSMInspector();
+    const checkout = createFSMStore('idle', transitions);
+    const Status = () => <p>{useFSMStore<typeof checkout>('checkout').currentState}</p>;
+
+    render(
+      <FSMProvider inspector={inspector} stores={{checkout}}>
+        <Status/>
+        <Status/>
+      </FSMProvider>,
+    );
+
+    expect(inspector.getMachines().map(({id}) => id)).toEqual(['checkout']);
+  });
+});
+
+describe('reduxDevtoolsAdapter', () => {
+  const createExtension = () => {
+    const listeners: ((message: ReduxDevtoolsMessage) => void)[] = [];
+    const connection = {
+      init: vi.fn(),
+      send: vi.fn(),
+      subscribe: vi.fn((listener: (message: ReduxDevtoolsMessage) => void) => {
+        listeners.push(listener);
+        return vi.fn();
+      }),
+      unsubscribe: vi.fn(),
+    };
+    return {
+      connection,
+      extension: {connect: vi.fn(() => connection)},
+      dispatch: (message: ReduxDevtoolsMessage) => listeners.forEach((listener) => listener(message)),
+    };
+  };
+
+  it('should send actions with states of all machines', () => {
+    const {connection, extension} = createExtension();
+    const inspector = createFSMInspector();
+    const store = createFSMStore('idle', transitions);
+
+    inspector.connect(reduxDevtoolsAdapter({name: 'app', extension}));
+    const unregister = inspector.register(store, 'form');
+    store.transition('typing', {text: 'a'});
+    store.undo();
+    unregister();
+
+    expect(extension.connect).toHaveBeenCalledWith({name: 'app'});
+    expect(connection.init).toHaveBeenCalledWith({});
+    expect(connection.send.mock.calls.map(([action]) => action)).toEqual([
+      {type: 'form/@@REGISTER'},
+      {type: 'form/typing', payload: {text: 'a'}},
+      {type: 'form/UNDO'},
+      {type: 'form/@@UNREGISTER'},
+    ]);
+    expect(connection.send.mock.calls[1][1]).toEqual({form: expect.objectContaining({currentState: 'typing', future: []})});
+    expect(connection.send.mock.calls[2][1]).toEqual({form: store.getSnapshot()});
+  });
+
+  it('should jump machines to state of devtools', () => {
+    const {connection, extension, dispatch} = createExtension();
+    const inspector = createFSMInspector();
+    const store = createFSMStore('idle', transitions);
+    inspector.register(store, 'form');
+    const disconnect = inspector.connect(reduxDevtoolsAdapter({extension}));
+    store.transition('typing');
+    const typing = JSON.stringify({form: store.getSnapshot()});
+    store.transition('submit');
+    connection.send.mockClear();
+
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_STATE'}, state: typing});
+    dispatch({type: 'DISPATCH', payload: {type: 'COMMIT'}, state: typing});
+    dispatch({type: 'ACTION', state: typing});
+
+    expect(store.getSnapshot().currentState).toBe('typing');
+    expect(connection.send).not.toHaveBeenCalled();
+
+    disconnect();
+
+    expect(connection.subscribe.mock.results[0].value).toHaveBeenCalled();
+    expect(connection.unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should skip jump to state trimmed by maxHistoryLength', () => {
+    const {extension, dispatch} = createExtension();
+    const logger = {log: vi.fn(), warn: vi.fn()};
+    const inspector = createFSMInspector();
+    const store = createFSMStore('a', {a: {next: 'b'}, b: {next: 'c'}, c: {next: 'd'}, d: {}}, {maxHistoryLength: 1});
+    inspector.register(store, 'steps');
+    inspector.connect(reduxDevtoolsAdapter({extension, logger}));
+    store.transition('next');
+    const b = JSON.stringify({steps: store.getSnapshot()});
+    store.transition('next');
+    const c = JSON.stringify({steps: store.getSnapshot()});
+    store.transition('next');
+
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_STATE'}, state: b});
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_STATE'}, state: c});
+
+    expect(store.getSnapshot().currentState).toBe('d');
+    expect(logger.warn.mock.calls).toEqual([
+      ['State of steps is not in its timeline, jump is skipped'],
+      ['State of steps is not in its timeline, jump is skipped'],
+    ]);
+  });
+
+  it('should jump by entries of timeline instead of history length', () => {
+    const {extension, dispatch} = createExtension();
+    const logger = {log: vi.fn(), warn: vi.fn()};
+    const inspector = createFSMInspector();
+    let time = 0;
+    const store = createFSMStore('idle', transitions, {
+      clock: {now: () => time++, setTimeout: () => 0, clearTimeout: () => {}},
+    });
+    inspector.register(store, 'form');
+    inspector.connect(reduxDevtoolsAdapter({extension, logger}));
+    const idle = JSON.stringify({form: store.getSnapshot(), removed: store.getSnapshot()});
+    store.transition('typing');
+    const typing = JSON.stringify({form: store.getSnapshot()});
+    store.transition('submit');
+    store.undo();
+    store.undo();
+    const undone = JSON.stringify({form: store.getSnapshot()});
+
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_ACTION'}, state: typing});
+    expect(store.getSnapshot().currentState).toBe('typing');
+
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_ACTION'}, state: idle});
+    expect(store.getSnapshot().currentState).toBe('idle');
+
+    store.redo();
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_ACTION'}, state: undone});
+    expect(store.getSnapshot()).toMatchObject({currentState: 'idle', future: [{to: 'typing'}, {to: 'done'}]});
+
+    store.transition('typing');
+    store.transition('canceling');
+    dispatch({type: 'DISPATCH', payload: {type: 'JUMP_TO_ACTION'}, state: typing});
+
+    expect(store.getSnapshot().currentState).toBe('idle');
+    expect(logger.warn).toHaveBeenCalledWith('State of form is not in its timeline, jump is skipped');
+  });
+
+  it('should do nothing without extension', () => {
+    const inspector = createFSMInspector();
+
+    const disconnect = inspector.connect(reduxDevtoolsAdapter());
+    act(() => disconnect());
+
+    expect(inspector.getMachines()).toEqual([]);
+  });
+
+  it('should connect global extension without window', () => {
+    const {connection, extension} = createExtension();
+    vi.stubGlobal('window', undefined);
+    vi.stubGlobal('__REDUX_DEVTOOLS_EXTENSION__', extension);
+    const inspector = createFSMInspector();
+
+    try {
+      inspector.connect(reduxDevtoolsAdapter({name: 'ssr'}));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(extension.connect).toHaveBeenCalledWith({name: 'ssr'});
+    expect(connection.init).toHaveBeenCalledWith({});
+  });
+});
@@ -0,0 +1,253 @@
+import {it, expect, describe} from 'vitest'
+import {generateDotDiagram, generateMermaidDiagram, generatePlantUMLDiagram, generateSCXML} from '../src';
+
+const transitions = {
+  'fill form': {'go on': 'checkout', 'quote"': 'fill form'},
+  checkout: {
+    cancel: 'fill form',
+    initial: 'payment',
+    states: {
+      payment: {next: 'review', after: {1000: 'review'}},
+      review: {},
+    },
+  },
+};
+
+const options = {
+  initialState: 'fill form',
+  currentState: 'checkout.review',
+  history: [
+    {from: 'fill form', to: 'checkout.payment', event: 'go on'},
+    {from: 'checkout.payment', to: 'checkout.review', event: 'next'},
+  ],
+  direction: 'LR' as const,
+};
+
+describe('generateMermaidDiagram options', () => {
+  it('should escape names and mark initial, current and visited states', () => {
+    expect(generateMermaidDiagram(transitions, options)).toBe(`stateDiagram-v2
+    direction LR
+    state "fill form" as fill_form
+    fill_form --> checkout: go on
+    fill_form --> fill_form: quote#34;
+    checkout --> fill_form: cancel
+    state checkout {
+        [*] --> checkout_payment
+        state "payment" as checkout_payment
+        state "review" as checkout_review
+        checkout_payment --> checkout_review: next
+        checkout_payment --> checkout_review: after(1000)
+    }
+    [*] --> fill_form
+    classDef visited stroke:#1e90ff,stroke-width:2px
+    class fill_form,checkout_payment,checkout_review visited
+    classDef current fill:#ffd700
+    class checkout_review current
+`);
+  });
+
+  it('should keep ids of nested states with the same name apart', () => {
+    expect(generateMermaidDiagram({
+      checkout: {initial: 'error', states: {error: {retry: 'shipping'}}},
+      shipping: {initial: 'error', states: {error: {}}},
+    })).toBe(`stateDiagram-v2
+    state checkout {
+        [*] --> checkout_error
+        state "error" as checkout_error
+        checkout_error --> shipping: retry
+    }
+    state shipping {
+        [*] --> shipping_error
+        state "error" as shipping_error
+    }
+`);
+  });
+
+  it('should suffix ids colliding after escaping', () => {
+    expect(generateMermaidDiagram({'a b': {next: 'a_b'}, a_b: {next: 'a b'}})).toBe(`stateDiagram-v2
+    state "a b" as a_b
+    state "a_b" as a_b_2
+    a_b --> a_b_2: next
+    a_b_2 --> a_b: next
+`);
+  });
+});
+
+describe('generateDotDiagram', () => {
+  it('should render states, clusters and transitions', () => {
+    expect(generateDotDiagram({idle: {typing: 'typing'}, typing: {canceling: 'idle'}})).toBe(`digraph {
+  node [shape=box, style=rounded];
+  "idle" [label="idle"];
+  "typing" [label="typing"];
+  "idle" -> "typing" [label="typing"];
+  "typing" -> "idle" [label="canceling"];
+}
+`);
+  });
+
+  it('should apply options', () => {
+    expect(generateDotDiagram(transitions, options)).toBe(`digraph {
+  rankdir=LR;
+  compound=true;
+  node [shape=box, style=rounded];
+  "[*]" [shape=point];
+  "[*]" -> "fill form";
+  "fill form" [label="fill form", color="#1e90ff", penwidth=2];
+  subgraph "cluster_checkout" {
+    label="checkout";
+    "checkout.payment" [label="payment", color="#1e90ff", penwidth=2];
+    "checkout.review" [label="review", style="rounded,filled", fillcolor="#ffd700", color="#1e90ff", penwidth=2];
+  }
+  "fill form" -> "checkout.payment" [label="go on", lhead="cluster_checkout", color="#1e90ff", penwidth=2];
+  "fill form" -> "fill form" [label="quote\\""];
+  "checkout.payment" -> "fill form" [label="cancel", ltail="cluster_checkout"];
+  "checkout.payment" -> "checkout.review" [label="next", color="#1e90ff", penwidth=2];
+  "checkout.payment" -> "checkout.review" [label="after(1000)"];
+}
+`);
+  });
+});
+
+describe('generatePlantUMLDiagram', () => {
+  it('should render states and transitions', () => {
+    expect(generatePlantUMLDiagram({idle: {typing: 'typing'}, typing: {canceling: 'idle'}}, {direction: 'TB'}))
+      .toBe(`@startuml
+idle --> typing : typing
+typing --> idle : canceling
+@enduml
+`);
+  });
+
+  it('should apply options', () => {
+    expect(generatePlantUMLDiagram(transitions, options)).toBe(`@startuml
+left to right direction
+[*] --> fill_form
+state "fill form" as fill_form
+fill_form -[#1e90ff,bold]-> checkout : go on
+fill_form --> fill_form : quote<U+0022>
+state checkout {
+  [*] --> checkout_payment
+  state "payment" as checkout_payment
+  checkout_payment -[#1e90ff,bold]-> checkout_review : next
+  checkout_payment --> checkout_review : after(1000)
+  state "review" as checkout_review #ffd700
+}
+checkout --> fill_form : cancel
+@enduml
+`);
+  });
+
+  it('should keep ids of nested states with the same name apart', () => {
+    expect(generatePlantUMLDiagram({
+      checkout: {initial: 'error', states: {error: {retry: 'shipping'}}},
+      shipping: {initial: 'error', states: {error: {}}},
+    })).toBe(`@startuml
+state checkout {
+  [*] --> checkout_error
+  state "error" as checkout_error
+  checkout_error --> shipping : retry
+}
+state shipping {
+  [*] --> shipping_error
+  state "error" as shipping_error
+}
+@enduml
+`);
+  });
+
+  it('should suffix ids colliding after escaping', () => {
+    expect(generatePlantUMLDiagram({'a b': {next: 'a_b'}, a_b: {next: 'a b'}})).toBe(`@startuml
+state "a b" as a_b
+a_b --> a_b_2 : next
+state "a_b" as a_b_2
+a_b_2 --> a_b : next
+@enduml
+`);
+  });
+});
+
+describe('generateSCXML', () => {
+  it('should serialize states and transitions', () => {
+    expect(generateSCXML(transitions, options)).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="fill form">
+  <state id="fill form">
+    <transition event="go on" target="checkout"/>
+    <transition event="quote&quot;" target="fill form"/>
+  </state>
+  <state id="checkout" initial="checkout.payment">
+    <transition event="cancel" target="fill form"/>
+    <state id="checkout.payment">
+      <transition event="next" target="checkout.review"/>
+    </state>
+    <state id="checkout.review"/>
+  </state>
+</scxml>
+`);
+  });
+
+  it('should omit delayed transitions and transitions of invoke', () => {
+    const submitting = {
+      idle: {after: {1000: 'submitting'}},
+      submitting: {cancel: 'idle', invoke: () => Promise.resolve(), onDone: 'idle', onError: 'idle'},
+    };
+
+    expect(generateSCXML(submitting)).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0">
+  <state id="idle"/>
+  <state id="submitting">
+    <transition event="cancel" target="idle"/>
+  </state>
+</scxml>
+`);
+  });
+
+  it('should escape XML special characters', () => {
+    expect(generateSCXML({'a&b': {"<it's>": 'a&b'}})).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0">
+  <state id="a&amp;b">
+    <transition event="&lt;it&apos;s&gt;" target="a&amp;b"/>
+  </state>
+</scxml>
+`);
+  });
+});
+
+describe('final states', () => {
+  it('should mark final states in every format', () => {
+    const wizard = {step: {next: 'done'}, done: {final: true}};
+
+    expect(generateMermaidDiagram(wizard)).toBe(`stateDiagram-v2
+    step --> done: next
+    done --> [*]
+`);
+    expect(generateDotDiagram(wizard)).toContain('"done" [label="done", peripheries=2];');
+    expect(generatePlantUMLDiagram(wizard)).toBe(`@startuml
+step --> done : next
+done --> [*]
+@enduml
+`);
+    expect(generateSCXML(wizard)).toContain('  <final id="done"/>\n');
+  });
+
+  it('should write final states with transitions as SCXML state', () => {
+    const wizard = {'*': {reset: 'step'}, step: {next: 'done'}, done: {final: true}};
+
+    expect(generateSCXML(wizard)).toContain(`  <state id="done">
+    <transition event="reset" target="step"/>
+  </state>
+`);
+  });
+});
+
+describe('wildcard', () => {
+  it('should draw wildcard transitions from states without override', () => {
+    const session = {'*': {logout: 'signedOut'}, browsing: {buy: 'paying'}, paying: {logout: 'browsing'}, signedOut: {}};
+
+    expect(generateMermaidDiagram(session)).toBe(`stateDiagram-v2
+    browsing --> paying: buy
+    browsing --> signedOut: logout
+    paying --> browsing: logout
+    signedOut --> signedOut: logout
+`);
+  });
+});
@@ -1,4 +1,4 @@
-import {useFSM} from "../src";
+import {FSMCase, FSMDefault, FSMMatch, FSMSwitch, FSMTransitionButton, useFSM} from "../src";
 
 export function TestComponent () {
   const {currentState, transition, undo, availableTransitions, getHistory} = useFSM(
@@ -25,4 +25,36 @@ export function TestComponent () {
       <p>History: {getHistory().join(' -> ')}</p>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export function MatchComponent ({onClick}: {onClick?: (event: React.MouseEvent) => void}) {
+  const fsm = useFSM(
+    'idle',
+    {
+      idle: {typing: 'typing'},
+      typing: {submitting: {target: 'submitting', guard: (_, payload) => payload !== 'empty'}, canceling: 'idle'},
+      submitting: {success: 'done', failure: 'fail'},
+      fail: {restart: 'idle'},
+      done: {},
+    }
+  );
+  const Case = FSMCase.for(fsm);
+
+  return (
+    <div>
+      <FSMMatch machine={fsm} state={['fail', 'done']}>
+        <p>Finished</p>
+      </FSMMatch>
+      <FSMSwitch machine={fsm}>
+        <Case state="typing"><p>Typing</p></Case>
+        <Case state={['submitting', 'typing']}><p>Busy</p></Case>
+        <FSMDefault><p>Waiting</p></FSMDefault>
+      </FSMSwitch>
+      <FSMTransitionButton machine={fsm} event="typing" onClick={onClick}>Start Typing</FSMTransitionButton>
+      <FSMTransitionButton machine={fsm} event="submitting">Submit</FSMTransitionButton>
+      <FSMTransitionButton machine={fsm} event="submitting" payload="empty">Submit Empty</FSMTransitionButton>
+      <FSMTransitionButton machine={fsm} event="failure">Failure</FSMTransitionButton>
+      <FSMTransitionButton machine={fsm} event="restart" disabled>Restart</FSMTransitionButton>
+    </div>
+  );
+}
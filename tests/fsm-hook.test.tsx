@@ -1,7 +1,21 @@
 import {it, expect, describe, vi} from 'vitest'
+import {StrictMode} from 'react';
 import {render, screen, fireEvent, renderHook, act} from '@testing-library/react';
-import {FSMLogger, FSMProvider, generateMermaidDiagram, useFSM} from '../src';
-import {TestComponent} from "./fsm-hook-components";
+import {
+  FSMCase,
+  FSMConfig,
+  FSMDefault,
+  FSMLogger,
+  FSMMatch,
+  FSMMiddleware,
+  FSMProvider,
+  FSMSwitch,
+  FSMTransitionButton,
+  generateMermaidDiagram,
+  memoryStorageAdapter,
+  useFSM,
+} from '../src';
+import {MatchComponent, TestComponent} from "./fsm-hook-components";
 
 describe('useFSM Hook', () => {
   it('should initialize with the correct state', () => {
@@ -233,6 +247,60 @@ describe('useFSM Hook', () => {
     expect(generateMermaidDiagram(transitions)).toBe(expectedDiagram);
   });
 
+  it('should label delayed transitions in Mermaid diagram', () => {
+    const expectedDiagram = `stateDiagram-v2
+    visible --> hidden: close
+    visible --> hidden: after(3000)
+`;
+
+    expect(generateMermaidDiagram({
+      visible: {close: 'hidden', after: {3000: {target: 'hidden'}}},
+      hidden: {},
+    })).toBe(expectedDiagram);
+  });
+
+  it('should label transitions of invoke in Mermaid diagram', () => {
+    const expectedDiagram = `stateDiagram-v2
+    submitting --> done: onDone
+    submitting --> fail: onError
+`;
+
+    expect(generateMermaidDiagram({
+      submitting: {invoke: () => Promise.resolve(), onDone: 'done', onError: 'fail'},
+      done: {},
+      fail: {},
+    })).toBe(expectedDiagram);
+  });
+
+  it('should generate composite states in Mermaid diagram', () => {
+    const transitions = {
+      cart: {checkout: 'checkout'},
+      checkout: {
+        cancel: 'cart',
+        initial: 'payment',
+        states: {
+          shipping: {next: 'payment'},
+          payment: {back: 'shipping', done: 'cart'},
+        },
+      },
+    };
+
+    const expectedDiagram = `stateDiagram-v2
+    cart --> checkout: checkout
+    checkout --> cart: cancel
+    state checkout {
+        [*] --> checkout_payment
+        state "shipping" as checkout_shipping
+        state "payment" as checkout_payment
+        checkout_shipping --> checkout_payment: next
+        checkout_payment --> checkout_shipping: back
+        checkout_payment --> cart: done
+    }
+`;
+
+    expect(generateMermaidDiagram(transitions)).toBe(expectedDiagram);
+  });
+
   it('should\'t log transition on info logLevel', () => {
     const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
 
@@ -530,4 +598,582 @@ describe('FSMProvider Component', () => {
     customLoggerLogSpy.mockRestore();
   });
 
-});
\ No newline at end of file
+  it('should apply onInvalidTransition of FSMProvider', () => {
+    const onInvalidTransition = vi.fn();
+
+    const {result} = renderHook(() => useFSM('idle', {idle: {typing: 'typing'}, typing: {canceling: 'idle'}}), {
+      wrapper: ({children}) => <FSMProvider config={{onInvalidTransition}}>{children}</FSMProvider>,
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+
+    expect(onInvalidTransition).toHaveBeenCalledWith({from: 'typing', event: 'typing', available: ['canceling']});
+  });
+
+  it('should apply config of FSMProvider changed after mount', () => {
+    const consoleSpy = vi.spyOn(console, 'warn');
+    let config: FSMConfig = {logLevel: 'none'};
+
+    const {result, rerender} = renderHook(() => useFSM('idle', {idle: {typing: 'typing'}, typing: {}}), {
+      wrapper: ({children}) => <FSMProvider config={config}>{children}</FSMProvider>,
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+    expect(consoleSpy).not.toHaveBeenCalled();
+
+    config = {logLevel: 'info'};
+    rerender();
+    act(() => {
+      result.current.transition('typing');
+    });
+
+    expect(consoleSpy).toHaveBeenCalledWith('Invalid transition from typing to typing');
+    consoleSpy.mockRestore();
+  });
+
+  it('should use guards and actions of transitions map of last render', () => {
+    const onEntry = vi.fn();
+    const {result, rerender} = renderHook(({valid}) => useFSM('form', {
+      form: {submit: {target: 'sent', guard: () => valid}},
+      sent: {onEntry: () => onEntry(valid)},
+    }), {initialProps: {valid: false}});
+
+    act(() => {
+      expect(result.current.transition('submit')).to.equal(false);
+    });
+    rerender({valid: true});
+    act(() => {
+      expect(result.current.transition('submit')).to.equal(true);
+    });
+
+    expect(result.current.currentState).to.equal('sent');
+    expect(onEntry).toHaveBeenCalledWith(true);
+  });
+
+  it('should read regions of parallel transitions map of last render', () => {
+    const {result, rerender} = renderHook(({target}) => useFSM({mode: 'view'}, {
+      mode: {view: {edit: target}, edit: {}, preview: {}},
+    }), {initialProps: {target: 'edit' as 'edit' | 'preview'}});
+
+    rerender({target: 'preview'});
+    act(() => {
+      result.current.transition('edit');
+    });
+
+    expect(result.current.currentState).to.eql({mode: 'preview'});
+  });
+
+  it('should apply middleware of FSMProvider to transition and undo', () => {
+    const events: string[] = [];
+    const middleware: FSMMiddleware[] = [({event}, next) => {
+      events.push(event);
+      return next();
+    }];
+    const local: FSMMiddleware[] = [({event}, next) => {
+      events.push(`local ${event}`);
+      return next();
+    }];
+
+    const {result} = renderHook(() => useFSM('idle', {idle: {typing: 'typing'}, typing: {canceling: 'idle'}}, {middleware: local}), {
+      wrapper: ({children}) => <FSMProvider config={{middleware}}>{children}</FSMProvider>,
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(events).to.eql(['typing', 'local typing', 'undo', 'local undo']);
+    expect(result.current.currentState).to.equal('idle');
+  });
+
+});
+describe('FSM components', () => {
+  it('should render matching state', () => {
+    render(<MatchComponent/>);
+
+    expect(screen.queryByText('Finished')).toBeNull();
+    expect(screen.getByText('Waiting')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Start Typing'));
+    expect(screen.getByText('Typing')).toBeTruthy();
+    expect(screen.queryByText('Busy')).toBeNull();
+    expect(screen.queryByText('Waiting')).toBeNull();
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(screen.getByText('Busy')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Failure'));
+    expect(screen.getByText('Finished')).toBeTruthy();
+    expect(screen.getByText('Waiting')).toBeTruthy();
+  });
+
+  it('should disable button when transition is not available', () => {
+    render(<MatchComponent/>);
+    const button = (text: string) => screen.getByText(text) as HTMLButtonElement;
+
+    expect(button('Start Typing').disabled).toBe(false);
+    expect(button('Start Typing').type).toBe('button');
+    expect(button('Submit').disabled).toBe(true);
+
+    fireEvent.click(button('Start Typing'));
+    expect(button('Start Typing').disabled).toBe(true);
+    expect(button('Submit').disabled).toBe(false);
+    expect(button('Submit Empty').disabled).toBe(true);
+
+    fireEvent.click(button('Submit'));
+    fireEvent.click(button('Failure'));
+    expect(button('Restart').disabled).toBe(true);
+  });
+
+  it('should skip transition when onClick prevents default', () => {
+    const onClick = vi.fn((event: React.MouseEvent) => event.preventDefault());
+    render(<MatchComponent onClick={onClick}/>);
+
+    fireEvent.click(screen.getByText('Start Typing'));
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Waiting')).toBeTruthy();
+  });
+
+  it('should render nothing without matching case or default', () => {
+    const {result} = renderHook(() => useFSM('idle', {idle: {typing: 'typing'}, typing: {}}));
+    const {container} = render(
+      <FSMSwitch machine={result.current}>
+        text
+        <FSMCase<typeof result.current> state="typing">Typing</FSMCase>
+      </FSMSwitch>,
+    );
+
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('should type-check states and events', () => {
+    const {result} = renderHook(() => useFSM('idle', {idle: {typing: 'typing'}, typing: {}}));
+    const fsm = result.current;
+    const Case = FSMCase.for(fsm);
+
+    render(
+      <div>
+        {/* @ts-expect-error unknown state */}
+        <FSMMatch machine={fsm} state="unknown">Unknown</FSMMatch>
+        <FSMSwitch machine={fsm}>
+          {/* @ts-expect-error unknown state */}
+          <FSMCase<typeof fsm> state="unknown">Unknown</FSMCase>
+          {/* @ts-expect-error unknown state */}
+          <Case state="unknown">Unknown</Case>
+          {/* @ts-expect-error type of machine is required */}
+          <FSMCase state="typing">Unknown</FSMCase>
+          <FSMDefault>Default</FSMDefault>
+        </FSMSwitch>
+        {/* @ts-expect-error unknown event */}
+        <FSMTransitionButton machine={fsm} event="unknown">Unknown</FSMTransitionButton>
+      </div>,
+    );
+
+    expect(screen.getAllByText('Unknown')).toHaveLength(1);
+    expect(screen.getByText('Default')).toBeTruthy();
+  });
+});
+
+describe('useFSM guards', () => {
+  it('should reject transition when guard returns false', () => {
+    const {result} = renderHook(() => useFSM(
+      'typing',
+      {
+        idle: {typing: 'typing'},
+        typing: {submitting: {target: 'submitting', guard: (_, form: {valid: boolean}) => form.valid}, canceling: 'idle'},
+        submitting: {success: 'idle'},
+      },
+    ));
+
+    act(() => {
+      result.current.transition<'typing'>('submitting', {valid: false})
+    });
+    expect(result.current.currentState).to.equal('typing');
+
+    act(() => {
+      result.current.transition<'typing'>('submitting', {valid: true})
+    });
+    expect(result.current.currentState).to.equal('submitting');
+  });
+
+  it('should generate Mermaid diagram for guarded transitions', () => {
+    expect(generateMermaidDiagram({
+      typing: {submitting: {target: 'submitting', guard: () => true}},
+      submitting: {canceling: 'typing'},
+    })).toBe(`stateDiagram-v2
+    typing --> submitting: submitting
+    submitting --> typing: canceling
+`);
+  });
+});
+
+describe('useFSM event queue', () => {
+  const form = {
+    idle: {typing: 'typing'},
+    typing: {submitting: 'submitting', canceling: 'idle'},
+    submitting: {success: 'idle', failure: 'fail'},
+    fail: {restart: 'idle'},
+  } as const;
+
+  it('should apply consecutive transitions of one handler', () => {
+    const renders = vi.fn();
+    const Form = () => {
+      const {currentState, transition, send} = useFSM('idle', form);
+      renders();
+      return (
+        <div>
+          <p>State: {currentState}</p>
+          <button onClick={() => {
+            transition<'idle'>('typing');
+            transition<'typing'>('submitting');
+          }}>Submit</button>
+          <button onClick={() => send(['success', 'typing', 'submitting', 'failure'])}>Fail</button>
+        </div>
+      );
+    };
+
+    render(<Form/>);
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(screen.getByText('State: submitting')).toBeTruthy();
+    expect(renders).toHaveBeenCalledTimes(2);
+
+    fireEvent.click(screen.getByText('Fail'));
+
+    expect(screen.getByText('State: fail')).toBeTruthy();
+    expect(renders).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return result of every sent event', () => {
+    const {result} = renderHook(() => useFSM('idle', form));
+    let results: boolean[] = [];
+
+    act(() => {
+      results = result.current.send(['typing', 'success', {event: 'submitting'}]);
+    });
+
+    expect(results).toEqual([true, false, true]);
+    expect(result.current.currentState).toBe('submitting');
+  });
+});
+
+describe('useFSM final states', () => {
+  it('should report isDone and call onDone of child wizard', async () => {
+    const Wizard = ({onDone}: {onDone: () => void}) => {
+      const {currentState, isDone, transition} = useFSM(
+        'name',
+        {name: {next: 'email'}, email: {next: 'finished'}, finished: {final: true}},
+        {onDone},
+      );
+      return <button onClick={() => transition('next')}>{isDone ? 'Done' : currentState}</button>;
+    };
+
+    let resolve: () => void = () => undefined;
+    const completed = new Promise<void>((done) => {
+      resolve = done;
+    });
+    render(<Wizard onDone={() => resolve()}/>);
+    fireEvent.click(screen.getByText('name'));
+    fireEvent.click(screen.getByText('email'));
+
+    await completed;
+    expect(screen.getByText('Done')).toBeTruthy();
+  });
+
+  it('should call onDone of last render and resolve whenDone', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const {result, rerender} = renderHook(({onDone}) => useFSM('name', {name: {next: 'finished'}, finished: {final: true}}, {onDone}), {
+      initialProps: {onDone: first},
+    });
+    const done = result.current.whenDone();
+
+    rerender({onDone: second});
+    act(() => {
+      result.current.transition('next');
+    });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    await expect(done).resolves.toBe(undefined);
+  });
+});
+
+describe('useFSM actions', () => {
+  it('should run actions once after commit and cleanup on unmount', () => {
+    const cleanup = vi.fn();
+    const onEntry = vi.fn(() => cleanup);
+    const onExit = vi.fn();
+
+    const {result, unmount} = renderHook(() => useFSM(
+      'idle',
+      {
+        idle: {typing: 'typing', onExit},
+        typing: {canceling: 'idle', onEntry},
+      },
+    ), {wrapper: StrictMode});
+
+    act(() => {
+      result.current.transition<'idle'>('typing')
+    });
+
+    expect(onExit).toHaveBeenCalledTimes(1);
+    expect(onEntry).toHaveBeenCalledTimes(1);
+    expect(onEntry).toHaveBeenCalledWith({from: 'idle', to: 'typing', event: 'typing', payload: undefined});
+
+    unmount();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should enter initial state after mount', () => {
+    const onEntry = vi.fn();
+    renderHook(() => useFSM('idle', {idle: {typing: 'typing', onEntry}, typing: {}}));
+
+    expect(onEntry).toHaveBeenCalledWith({to: 'idle'});
+  });
+
+  it('should skip reserved keys in Mermaid diagram', () => {
+    expect(generateMermaidDiagram({
+      idle: {typing: 'typing', onEntry: () => undefined},
+      typing: {canceling: 'idle'},
+    })).toBe(`stateDiagram-v2
+    idle --> typing: typing
+    typing --> idle: canceling
+`);
+  });
+});
+
+describe('useFSM context', () => {
+  it('should update and undo context with payload', () => {
+    const {result} = renderHook(() => useFSM(
+      'submitting',
+      {
+        submitting: {
+          failure: {target: 'fail', assign: (context, error: string) => ({...context, error, retries: context.retries + 1})},
+        },
+        fail: {restart: 'submitting'},
+      },
+      {context: {error: '', retries: 0}},
+    ));
+
+    act(() => {
+      result.current.transition<'submitting'>('failure', 'Network error')
+    });
+
+    expect(result.current.currentState).to.equal('fail');
+    expect(result.current.context).to.eql({error: 'Network error', retries: 1});
+
+    act(() => {
+      result.current.undo()
+    });
+
+    expect(result.current.context).to.eql({error: '', retries: 0});
+  });
+});
+
+describe('useFSM time travel', () => {
+  it('should undo and redo with canUndo and canRedo flags', () => {
+    const {result} = renderHook(() => useFSM(
+      'idle',
+      {
+        idle: {typing: 'typing'},
+        typing: {submitting: 'submitting', canceling: 'idle'},
+        submitting: {success: 'idle', failure: 'fail'},
+        fail: {restart: 'idle'},
+      },
+    ));
+
+    expect(result.current.canUndo).to.equal(false);
+
+    act(() => {
+      result.current.transition<'idle'>('typing')
+    });
+    act(() => {
+      result.current.transition<'typing'>('submitting')
+    });
+    act(() => {
+      result.current.jumpTo(0)
+    });
+
+    expect(result.current.currentState).to.equal('idle');
+    expect(result.current.canUndo).to.equal(false);
+    expect(result.current.canRedo).to.equal(true);
+    expect(result.current.getFuture()).to.eql(['typing', 'submitting']);
+
+    act(() => {
+      result.current.redo()
+    });
+
+    expect(result.current.currentState).to.equal('typing');
+    expect(result.current.canUndo).to.equal(true);
+  });
+});
+
+describe('useFSM nested states', () => {
+  it('should match ancestors of current state', () => {
+    const {result} = renderHook(() => useFSM(
+      'cart',
+      {
+        cart: {checkout: 'checkout'},
+        checkout: {
+          cancel: 'cart',
+          states: {
+            payment: {next: 'review'},
+            review: {},
+          },
+        },
+      },
+    ));
+
+    act(() => {
+      result.current.transition('checkout')
+    });
+
+    expect(result.current.currentState).to.equal('checkout.payment');
+    expect(result.current.matches('checkout')).to.equal(true);
+
+    act(() => {
+      result.current.transition<'checkout'>('cancel')
+    });
+
+    expect(result.current.currentState).to.equal('cart');
+    expect(result.current.matches('checkout')).to.equal(false);
+  });
+});
+
+describe('useFSM parallel regions', () => {
+  it('should return object of region states', () => {
+    const {result} = renderHook(() => useFSM(
+      {playback: 'paused', volume: 'unmuted'},
+      {
+        playback: {paused: {play: 'playing'}, playing: {pause: 'paused', stop: 'paused'}},
+        volume: {unmuted: {mute: 'muted'}, muted: {unmute: 'unmuted', stop: 'unmuted'}},
+      },
+    ));
+
+    act(() => {
+      result.current.transition('play')
+    });
+    act(() => {
+      result.current.transition<'volume'>('mute')
+    });
+
+    expect(result.current.currentState).to.eql({playback: 'playing', volume: 'muted'});
+
+    act(() => {
+      result.current.transition('stop')
+    });
+
+    expect(result.current.currentState).to.eql({playback: 'paused', volume: 'unmuted'});
+    expect(result.current.matches('playback.paused')).to.equal(true);
+
+    act(() => {
+      result.current.undo()
+    });
+
+    expect(result.current.currentState).to.eql({playback: 'playing', volume: 'muted'});
+  });
+});
+
+describe('useFSM delayed transitions', () => {
+  it('should transition after delay and clear timer on unmount', () => {
+    vi.useFakeTimers();
+    const transitions = {
+      typing: {input: 'typing', after: {1000: 'idle'}},
+      idle: {input: 'typing'},
+    } as const;
+    const {result} = renderHook(() => useFSM('typing', transitions), {wrapper: StrictMode});
+
+    vi.advanceTimersByTime(500);
+    act(() => {
+      result.current.transition('input')
+    });
+    vi.advanceTimersByTime(500);
+    expect(result.current.currentState).to.equal('typing');
+
+    act(() => {
+      vi.advanceTimersByTime(500)
+    });
+    expect(result.current.currentState).to.equal('idle');
+
+    const {unmount} = renderHook(() => useFSM('typing', transitions));
+    unmount();
+    expect(vi.getTimerCount()).to.equal(0);
+    vi.useRealTimers();
+  });
+});
+
+describe('useFSM invoke', () => {
+  it('should invoke after commit and abort on unmount', async () => {
+    const signals: AbortSignal[] = [];
+    const {result, unmount} = renderHook(() => useFSM('idle', {
+      idle: {load: 'loading'},
+      loading: {
+        invoke: (_, signal) => {
+          signals.push(signal);
+          return Promise.resolve('data');
+        },
+        onDone: 'idle',
+      },
+    }));
+
+    await act(async () => {
+      result.current.transition('load')
+    });
+
+    expect(signals).to.have.length(1);
+    expect(result.current.currentState).to.equal('idle');
+
+    const pending = renderHook(() => useFSM('loading', {
+      loading: {invoke: (_, signal) => {
+        signals.push(signal);
+        return new Promise(() => undefined);
+      }},
+    }));
+    pending.unmount();
+    unmount();
+
+    expect(signals[1].aborted).to.equal(true);
+  });
+});
+
+describe('useFSM persist', () => {
+  it('should rehydrate state on mount', () => {
+    const config = {persist: {key: 'wizard', storage: memoryStorageAdapter()}};
+    const transitions = {step1: {next: 'step2'}, step2: {back: 'step1'}} as const;
+    const first = renderHook(() => useFSM('step1', transitions, config));
+
+    act(() => {
+      first.result.current.transition('next')
+    });
+    first.unmount();
+
+    const {result} = renderHook(() => useFSM('step1', transitions, config));
+
+    expect(result.current.currentState).to.equal('step2');
+    expect(result.current.canUndo).to.equal(true);
+  });
+});
+
+describe('useFSM analysis', () => {
+  it('should log diagnostics on mount with debug logLevel', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+
+    renderHook(() => useFSM('idle', {idle: {submit: 'done'}, done: {}}, {logLevel: 'debug', logger}));
+    renderHook(() => useFSM('idle', {idle: {submit: 'done'}, done: {}}, {logLevel: 'info', logger}));
+
+    expect(logger.log).toHaveBeenCalledTimes(1);
+    expect(logger.log).toHaveBeenCalledWith('Dead-end state done');
+  });
+});
@@ -0,0 +1,167 @@
+/// <reference types="vite/client" />
+import {it, expect, describe} from 'vitest'
+import {createMachine, FSMImportError, fromSCXML, fromXStateConfig} from '../src';
+
+const scxml = import.meta.glob<string>('./corpus/*.scxml', {query: '?raw', import: 'default', eager: true});
+const xstate = import.meta.glob<string>('./corpus/*.xstate.json', {query: '?raw', import: 'default', eager: true});
+const expected = import.meta.glob<object>('./corpus/*.expected.json', {import: 'default', eager: true});
+
+const expectedOf = (file: string) => expected[file.replace(/(\.xstate)?\.\w+$/, '.expected.json')] as {error?: string};
+
+const parse = (parser: (source: string) => unknown, file: string, source: string) => {
+  const result = expectedOf(file);
+  if (result.error) {
+    expect(() => parser(source)).toThrow(FSMImportError);
+    expect(() => parser(source)).toThrow(result.error);
+  } else {
+    expect(parser(source)).toEqual(result);
+  }
+};
+
+describe('fromSCXML', () => {
+  it.each(Object.entries(scxml))('should import %s', (file, source) => parse(fromSCXML, file, source));
+
+  it('should decode entities of names', () => {
+    expect(fromSCXML(`<scxml><state id="a"><transition event="&#x41;&amp;&#66;&lt;" target="a"/></state></scxml>`))
+      .toEqual({parallel: false, initialState: 'a', transitions: {a: {'A&B<': 'a'}}});
+  });
+
+  it('should throw on malformed documents', () => {
+    expect(() => fromSCXML('<scxml><state id="a"></scxml>')).toThrow(SyntaxError);
+    expect(() => fromSCXML('<scxml><state id="a">')).toThrow('Invalid XML: <state> is not closed');
+    expect(() => fromSCXML('<machine/>')).toThrow('Invalid SCXML: root element must be single <scxml>');
+  });
+
+  it('should list invalid ids, initial states and targets', () => {
+    const error = (() => {
+      try {
+        fromSCXML(`
+          <scxml initial="missing">
+            <state id="a.b"/>
+            <state id="onEntry"/>
+            <state id="c" initial="a.b">
+              <state id="d"><transition event="states after(1000) onDone" target="d"/></state>
+              <state id="d"/>
+              <parallel id="e"/>
+              <state><transition event="go" target="f"/></state>
+            </state>
+            <state id="f"/>
+          </scxml>
+        `);
+      } catch (error) {
+        return error as FSMImportError;
+      }
+    })();
+
+    expect(error?.nodes).toEqual([
+      'dot in id of state a.b',
+      'duplicate id d',
+      '<parallel> c.e not as the only top level state',
+      '<state> without id in state c',
+      'initial a.b of state c is not its child',
+      'initial missing of <scxml> is not a state',
+      'state onEntry has reserved name',
+      'event states in state c.d has reserved name',
+      'event after(1000) in state c.d has reserved name',
+      'event onDone in state c.d has reserved name',
+    ]);
+  });
+
+  it('should list transitions and states of final', () => {
+    expect(() => fromSCXML(`
+      <scxml>
+        <state id="a"><transition event="go" target="b"/></state>
+        <final id="b"><transition event="reset" target="a"/><state id="c"/></final>
+      </scxml>
+    `)).toThrow([
+      'Unsupported SCXML features:',
+      '  - <transition> in <final> b',
+      '  - <state> in <final> b',
+    ].join('\n'));
+  });
+
+  it('should list unsupported nodes of parallel statechart', () => {
+    expect(() => fromSCXML(`
+      <scxml>
+        <parallel id="p">
+          <state id="a"><state id="a1"><transition event="go" target="b1"/></state></state>
+          <state id="b"><transition event="reset" target="b"/><state id="b1"/></state>
+          <state id="c"/>
+          <onexit/>
+        </parallel>
+      </scxml>
+    `)).toThrow([
+      'Unsupported SCXML features:',
+      '  - <onexit> in <parallel> p',
+      '  - transitions of region b',
+      '  - region c without states',
+      '  - transition go in state a.a1 targets other region',
+    ].join('\n'));
+  });
+});
+
+describe('fromXStateConfig', () => {
+  it.each(Object.entries(xstate))('should import %s', (file, source) => parse(fromXStateConfig, file, source));
+
+  it('should accept config object', () => {
+    expect(fromXStateConfig({states: {idle: {on: {typing: 'typing'}}, typing: {}}})).toEqual({
+      parallel: false,
+      initialState: 'idle',
+      transitions: {idle: {typing: 'typing'}, typing: {}},
+    });
+  });
+
+  it('should list invalid keys, initial states and targets', () => {
+    expect(() => fromXStateConfig({
+      initial: 'missing',
+      on: {go: 'a'},
+      states: {
+        'a.b': {},
+        c: {type: 'parallel', on: {'': 'c', go: ['c', 'd'], back: {}}, states: {d: {on: {up: '#missing', down: '#top.f'}}, e: {states: {f: {}}}}},
+        e: {id: 'top', states: {f: {}}},
+      },
+    })).toThrow([
+      'Unsupported XState features:',
+      '  - on in machine',
+      '  - dot in key of state a.b',
+      '  - parallel state c',
+      '  - eventless transition in state c',
+      '  - 2 targets of transition go in state c',
+      '  - targetless transition back in state c',
+      '  - unknown target #missing of transition up in state c.d',
+      '  - initial missing of machine is not a state',
+      '  - target e.f of transition down in state c.d is ambiguous',
+    ].join('\n'));
+  });
+});
+
+describe('imported machine', () => {
+  it('should run with createMachine', () => {
+    const definition = fromXStateConfig(xstate['./corpus/form.xstate.json']);
+    if (definition.parallel) {
+      throw new Error('Expected simple machine');
+    }
+
+    const machine = createMachine(definition.initialState, definition.transitions);
+    machine.transition('type');
+    machine.transition('submit');
+    machine.transition('failure');
+    machine.transition('edit');
+
+    expect(machine.getSnapshot().currentState).toBe('editing.filled');
+  });
+
+  it('should run parallel machine with createMachine', () => {
+    const definition = fromSCXML(scxml['./corpus/player.scxml']);
+    if (!definition.parallel) {
+      throw new Error('Expected parallel machine');
+    }
+
+    const machine = createMachine(definition.initialState, definition.transitions);
+    machine.transition('play');
+    machine.transition('mute');
+    machine.transition('stop');
+
+    expect(machine.getSnapshot().currentState).toEqual({playback: 'paused', volume: 'unmuted'});
+  });
+});
@@ -0,0 +1,1290 @@
+import {it, expect, describe, vi} from 'vitest'
+import {createFSMStore, createMachine, FSMClock, FSMLogger, memoryStorageAdapter} from '../src';
+
+const transitions = {
+  idle: {typing: 'typing'},
+  typing: {submitting: 'submitting', canceling: 'idle'},
+  submitting: {success: 'idle', failure: 'fail'},
+  fail: {restart: 'idle'},
+} as const;
+
+describe('createMachine', () => {
+  it('should initialize with the correct snapshot', () => {
+    const machine = createMachine('idle', transitions);
+
+    expect(machine.getSnapshot()).to.eql({currentState: 'idle', context: undefined, history: [], future: []});
+    expect(machine.availableTransitions()).to.have.members(['typing']);
+  });
+
+  it('should transition, undo and keep history without React', () => {
+    const machine = createMachine('idle', transitions);
+
+    expect(machine.transition<'idle'>('typing')).to.equal(true);
+    expect(machine.transition<'typing'>('submitting')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('submitting');
+    expect(machine.getHistory()).to.eql(['idle', 'typing']);
+
+    expect(machine.undo()).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('typing');
+    expect(machine.getHistory()).to.eql(['idle']);
+  });
+
+  it('should return same snapshot until next change', () => {
+    const machine = createMachine('idle', transitions);
+    const snapshot = machine.getSnapshot();
+
+    expect(machine.getSnapshot()).to.equal(snapshot);
+    machine.transition('typing');
+    expect(machine.getSnapshot()).not.to.equal(snapshot);
+  });
+
+  it('should notify subscribers until unsubscribe', () => {
+    const machine = createMachine('idle', transitions);
+    const listener = vi.fn();
+    const unsubscribe = machine.subscribe(listener);
+
+    machine.transition('typing');
+    machine.undo();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    machine.transition('typing');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject invalid transition and empty undo without notify', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine('idle', transitions, {logLevel: 'info', logger});
+    const listener = vi.fn();
+    machine.subscribe(listener);
+
+    expect(machine.transition('success')).to.equal(false);
+    expect(machine.undo()).to.equal(false);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith('Invalid transition from idle to success');
+    expect(logger.warn).toHaveBeenCalledWith('No history to undo');
+    expect(logger.log).not.toHaveBeenCalled();
+  });
+
+  it('should throw on invalid transition and empty undo with throw policy', () => {
+    const machine = createMachine('idle', transitions, {onInvalidTransition: 'throw'});
+
+    expect(() => machine.transition('success')).toThrow('Invalid transition from idle to success');
+    expect(() => machine.undo()).toThrow('No history to undo');
+    expect(() => machine.redo()).toThrow('No history to redo');
+    expect(() => machine.jumpTo(5)).toThrow('Invalid history index 5');
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+  });
+
+  it('should pass invalid transition to handler and skip logs when ignored', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const onInvalidTransition = vi.fn();
+    const machine = createMachine('idle', transitions, {logLevel: 'info', logger, onInvalidTransition});
+    const ignoring = createMachine('idle', transitions, {logLevel: 'info', logger, onInvalidTransition: 'ignore'});
+
+    expect(machine.transition('success')).to.equal(false);
+    expect(machine.undo()).to.equal(false);
+    expect(ignoring.transition('success')).to.equal(false);
+    expect(ignoring.undo()).to.equal(false);
+    expect(machine.redo()).to.equal(false);
+    expect(machine.jumpTo(-1)).to.equal(false);
+    expect(ignoring.redo()).to.equal(false);
+    expect(ignoring.jumpTo(-1)).to.equal(false);
+
+    expect(onInvalidTransition.mock.calls).toEqual([
+      [{from: 'idle', event: 'success', available: ['typing']}],
+      [{from: 'idle', event: 'undo', available: ['typing']}],
+      [{from: 'idle', event: 'redo', available: ['typing']}],
+      [{from: 'idle', event: 'jumpTo', available: ['typing']}],
+    ]);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should signal final state with isDone, onDone and whenDone', async () => {
+    const onDone = vi.fn();
+    const machine = createMachine(
+      'form',
+      {form: {submit: {target: 'done', assign: () => ({sent: true})}}, done: {final: true, back: 'form'}},
+      {context: {sent: false}, onDone},
+    );
+    const done = machine.whenDone();
+
+    expect(machine.isDone()).to.equal(false);
+
+    machine.transition('submit');
+
+    expect(machine.isDone()).to.equal(true);
+    expect(onDone).toHaveBeenCalledWith({sent: true});
+    await expect(done).resolves.toEqual({sent: true});
+    await expect(machine.whenDone()).resolves.toEqual({sent: true});
+
+    machine.undo();
+    machine.redo();
+
+    expect(machine.isDone()).to.equal(true);
+    expect(onDone).toHaveBeenCalledTimes(1);
+  });
+
+  it('should be done when every region is in final state', () => {
+    const onDone = vi.fn();
+    const machine = createMachine(
+      {upload: 'sending', scan: 'scanning'},
+      {
+        upload: {sending: {sent: 'sent'}, sent: {final: true}},
+        scan: {scanning: {clean: 'clean'}, clean: {final: true}},
+      },
+      {onDone},
+    );
+
+    machine.transition('sent');
+
+    expect(machine.isDone()).to.equal(false);
+
+    machine.transition('clean');
+
+    expect(machine.isDone()).to.equal(true);
+    expect(onDone).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log undo on debug logLevel', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine('idle', transitions, {logLevel: 'debug', logger});
+
+    machine.transition('typing');
+    machine.undo();
+
+    expect(logger.log).toHaveBeenCalledWith('Undoing from typing to idle');
+  });
+});
+
+describe('createMachine guards', () => {
+  const guarded = {
+    typing: {
+      submitting: {target: 'submitting', guard: (_state: string, form: {valid: boolean}) => form.valid},
+      canceling: 'idle',
+    },
+    idle: {typing: 'typing'},
+    submitting: {},
+  } as const;
+
+  it('should apply transition only when guard passes', () => {
+    const machine = createMachine('typing', guarded);
+
+    expect(machine.transition('submitting', {valid: false})).to.equal(false);
+    expect(machine.getSnapshot().currentState).to.equal('typing');
+
+    expect(machine.transition('submitting', {valid: true})).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('submitting');
+  });
+
+  it('should pass current state and payload to guard', () => {
+    const guard = vi.fn(() => true);
+    const machine = createMachine('idle', {idle: {typing: {target: 'typing', guard}}, typing: {}});
+
+    machine.transition('typing', 'payload');
+
+    expect(guard).toHaveBeenCalledWith('idle', 'payload', undefined);
+  });
+
+  it('should log rejected guard as invalid transition', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine('typing', guarded, {logLevel: 'info', logger});
+
+    machine.transition('submitting', {valid: false});
+
+    expect(logger.warn).toHaveBeenCalledWith('Invalid transition from typing to submitting');
+  });
+
+  it('should call callback passed after payload', () => {
+    const machine = createMachine('typing', guarded);
+    const callback = vi.fn();
+
+    machine.transition('submitting', {valid: true}, callback);
+
+    expect(callback).toHaveBeenCalledWith('submitting');
+  });
+
+  it('should pass function payload followed by callback or undefined', () => {
+    const validate = () => true;
+    const machine = createMachine('idle', {
+      idle: {save: {target: 'saved', guard: (_: string, payload: unknown) => payload === validate}},
+      saved: {edit: 'idle'},
+    });
+    const callback = vi.fn();
+
+    expect(machine.transition('save', validate, callback)).to.equal(true);
+    machine.transition('edit');
+    expect(machine.transition('save', validate, undefined)).to.equal(true);
+
+    expect(callback).toHaveBeenCalledWith('saved');
+    expect(machine.getTransitionLog().map(({payload}) => payload)).to.eql([validate, undefined, validate]);
+  });
+
+  it('should report only transitions with passing guards', () => {
+    const machine = createMachine('typing', guarded);
+
+    expect(machine.availableTransitions()).to.have.members(['submitting', 'canceling']);
+    expect(machine.availableTransitions({guarded: true, payload: {valid: false}})).to.have.members(['canceling']);
+    expect(machine.availableTransitions({guarded: true, payload: {valid: true}})).to.have.members(['submitting', 'canceling']);
+  });
+});
+
+describe('createMachine actions', () => {
+  it('should run exit, transition and entry actions in order', () => {
+    const calls: string[] = [];
+    const machine = createMachine('idle', {
+      idle: {
+        typing: {target: 'typing', onTransition: ({from, to, event}) => calls.push(`transition ${from} ${to} ${event}`)},
+        onEntry: ({from}) => {
+          calls.push(`enter idle from ${from}`);
+          return () => calls.push('cleanup idle');
+        },
+        onExit: () => calls.push('exit idle'),
+      },
+      typing: {canceling: 'idle', onEntry: ({payload}) => {
+        calls.push(`enter typing ${payload}`);
+      }},
+    });
+
+    expect(calls).to.eql(['enter idle from undefined']);
+
+    machine.transition('typing', 'draft');
+
+    expect(calls).to.eql([
+      'enter idle from undefined',
+      'cleanup idle',
+      'exit idle',
+      'transition idle typing typing',
+      'enter typing draft',
+    ]);
+  });
+
+  it('should run exit and entry actions on undo', () => {
+    const onExit = vi.fn();
+    const onEntry = vi.fn();
+    const machine = createMachine('idle', {
+      idle: {typing: 'typing', onEntry},
+      typing: {canceling: 'idle', onExit},
+    });
+
+    machine.transition('typing');
+    machine.undo();
+
+    expect(onExit).toHaveBeenCalledWith({from: 'typing', to: 'idle'});
+    expect(onEntry).toHaveBeenLastCalledWith({from: 'typing', to: 'idle'});
+  });
+
+  it('should defer actions until flush', () => {
+    const onEntry = vi.fn();
+    const machine = createMachine('idle', {idle: {typing: 'typing'}, typing: {onEntry}}, {deferActions: true});
+
+    machine.transition('typing');
+    expect(onEntry).not.toHaveBeenCalled();
+
+    machine.flush();
+    machine.flush();
+    expect(onEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run cleanup on stop and enter current state again on flush', () => {
+    const cleanup = vi.fn();
+    const onEntry = vi.fn(() => cleanup);
+    const machine = createMachine('idle', {idle: {typing: 'typing', onEntry}, typing: {}});
+
+    machine.stop();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+
+    machine.flush();
+    expect(onEntry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not treat reserved keys as transitions', () => {
+    const machine = createMachine('idle', {idle: {typing: 'typing', onExit: () => undefined}, typing: {}});
+
+    expect(machine.availableTransitions()).to.eql(['typing']);
+    // @ts-expect-error onExit is not a transition
+    expect(machine.transition('onExit')).to.equal(false);
+  });
+});
+
+describe('createMachine context', () => {
+  const counter = {
+    idle: {
+      start: {target: 'running', assign: (context: {count: number}, step: number) => ({count: context.count + step})},
+    },
+    running: {
+      stop: {target: 'idle', guard: (_state: string, _payload: unknown, context: {count: number}) => context.count < 10},
+    },
+  } as const;
+
+  it('should expose initial context in snapshot', () => {
+    const machine = createMachine('idle', counter, {context: {count: 0}});
+
+    expect(machine.getSnapshot()).to.eql({currentState: 'idle', context: {count: 0}, history: [], future: []});
+  });
+
+  it('should update context atomically with state change', () => {
+    const machine = createMachine('idle', counter, {context: {count: 0}});
+    const snapshots: unknown[] = [];
+    machine.subscribe(() => snapshots.push(machine.getSnapshot()));
+
+    machine.transition('start', 5);
+
+    expect(snapshots).to.have.length(1);
+    expect(snapshots[0]).to.include({currentState: 'running'});
+    expect(snapshots[0]).to.have.deep.property('context', {count: 5});
+    expect(snapshots[0]).to.have.nested.property('history[0].fromContext.count', 0);
+  });
+
+  it('should pass context to guards and actions', () => {
+    const onEntry = vi.fn();
+    const machine = createMachine('idle', {...counter, idle: {...counter.idle, onEntry}}, {context: {count: 0}});
+
+    machine.transition('start', 20);
+    expect(machine.transition('stop')).to.equal(false);
+
+    machine.undo();
+    expect(onEntry).toHaveBeenLastCalledWith({from: 'running', to: 'idle', context: {count: 0}});
+  });
+
+  it('should keep context for transitions without assign', () => {
+    const context = {count: 1};
+    const machine = createMachine('idle', {...counter, running: {stop: 'idle'}}, {context});
+
+    machine.transition('start', 1);
+    machine.transition('stop');
+
+    expect(machine.getSnapshot().context).to.eql({count: 2});
+  });
+
+  it('should restore context on undo', () => {
+    const machine = createMachine('idle', counter, {context: {count: 0}});
+
+    machine.transition('start', 3);
+    machine.undo();
+
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+    expect(machine.getSnapshot().context).to.eql({count: 0});
+  });
+});
+
+describe('createMachine time travel', () => {
+  it('should redo undone transitions with context', () => {
+    const machine = createMachine('idle', {
+      idle: {typing: {target: 'typing', assign: (_context: string, draft: string) => draft}},
+      typing: {canceling: 'idle'},
+    }, {context: ''});
+
+    machine.transition('typing', 'draft');
+    machine.undo();
+
+    expect(machine.canUndo()).to.equal(false);
+    expect(machine.canRedo()).to.equal(true);
+    expect(machine.getFuture()).to.eql(['typing']);
+
+    expect(machine.redo()).to.equal(true);
+    expect(machine.getSnapshot()).to.include({currentState: 'typing', context: 'draft'});
+    expect(machine.canRedo()).to.equal(false);
+  });
+
+  it('should clear future on new transition', () => {
+    const machine = createMachine('idle', transitions);
+
+    machine.transition('typing');
+    machine.undo();
+    machine.transition('typing');
+
+    expect(machine.getFuture()).to.eql([]);
+  });
+
+  it('should jump to any index of timeline', () => {
+    const machine = createMachine('idle', transitions);
+
+    machine.transition('typing');
+    machine.transition('submitting');
+    machine.transition('failure');
+
+    expect(machine.jumpTo(1)).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('typing');
+    expect(machine.getHistory()).to.eql(['idle']);
+    expect(machine.getFuture()).to.eql(['submitting', 'fail']);
+
+    expect(machine.jumpTo(3)).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('fail');
+    expect(machine.getHistory()).to.eql(['idle', 'typing', 'submitting']);
+  });
+
+  it('should reject current and invalid indexes', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine('idle', transitions, {logLevel: 'info', logger});
+
+    machine.transition('typing');
+
+    expect(machine.jumpTo(1)).to.equal(false);
+    expect(machine.jumpTo(2)).to.equal(false);
+    expect(machine.jumpTo(-1)).to.equal(false);
+    expect(logger.warn).toHaveBeenCalledWith('Invalid history index 2');
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should warn on empty redo', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine('idle', transitions, {logLevel: 'debug', logger});
+
+    expect(machine.redo()).to.equal(false);
+    expect(logger.warn).toHaveBeenCalledWith('No history to redo');
+
+    machine.transition('typing');
+    machine.undo();
+    machine.redo();
+    machine.jumpTo(0);
+    expect(logger.log).toHaveBeenCalledWith('Redoing from idle to typing');
+    expect(logger.log).toHaveBeenCalledWith('Jumping from typing to idle');
+  });
+
+  it('should limit both stacks by maxHistoryLength', () => {
+    const machine = createMachine('idle', transitions, {maxHistoryLength: 2});
+
+    machine.transition('typing');
+    machine.transition('submitting');
+    machine.transition('failure');
+    machine.transition('restart');
+    machine.jumpTo(0);
+
+    expect(machine.getSnapshot().currentState).to.equal('submitting');
+    expect(machine.getFuture()).to.eql(['fail', 'idle']);
+  });
+
+  it('should keep no future when history is disabled', () => {
+    const machine = createMachine('idle', transitions, {maxHistoryLength: 0});
+
+    machine.transition('typing');
+
+    expect(machine.canUndo()).to.equal(false);
+    expect(machine.getFuture()).to.eql([]);
+  });
+});
+
+describe('createMachine transition log', () => {
+  it('should record event, timestamp and payload of transitions', () => {
+    vi.spyOn(Date, 'now').mockReturnValueOnce(100).mockReturnValueOnce(200);
+    const machine = createMachine('idle', transitions);
+
+    machine.transition('typing');
+    machine.transition('submitting', {name: 'form'});
+
+    expect(machine.getTransitionLog()).to.eql([
+      {from: 'idle', to: 'typing', event: 'typing', timestamp: 100, payload: undefined},
+      {from: 'typing', to: 'submitting', event: 'submitting', timestamp: 200, payload: {name: 'form'}},
+    ]);
+    expect(machine.getHistory()).to.eql(['idle', 'typing']);
+    vi.restoreAllMocks();
+  });
+
+  it('should trim transition log by maxHistoryLength and undo', () => {
+    const machine = createMachine('idle', transitions, {maxHistoryLength: 2});
+
+    machine.transition('typing');
+    machine.transition('submitting');
+    machine.transition('failure');
+    machine.undo();
+
+    expect(machine.getTransitionLog().map(({event}) => event)).to.eql(['submitting']);
+    expect(machine.getHistory()).to.eql(['typing']);
+  });
+});
+
+describe('createMachine nested states', () => {
+  const checkout = {
+    cart: {checkout: 'checkout'},
+    checkout: {
+      cancel: 'cart',
+      initial: 'payment',
+      states: {
+        shipping: {next: 'payment'},
+        payment: {
+          back: 'shipping',
+          initial: 'enteringCard',
+          states: {
+            enteringCard: {submit: 'verifying'},
+            verifying: {cancel: 'enteringCard', done: 'checkout.confirmed'},
+          },
+        },
+        confirmed: {},
+      },
+    },
+  } as const;
+
+  it('should enter initial child of compound state', () => {
+    const machine = createMachine('cart', checkout);
+
+    machine.transition('checkout');
+
+    expect(machine.getSnapshot().currentState).to.equal('checkout.payment.enteringCard');
+    expect(machine.matches('checkout')).to.equal(true);
+    expect(machine.matches('checkout.payment')).to.equal(true);
+    expect(machine.matches('checkout.payment.enteringCard')).to.equal(true);
+    expect(machine.matches('checkout.shipping')).to.equal(false);
+    expect(machine.matches('cart')).to.equal(false);
+  });
+
+  it('should start in initial child and fall back to first child', () => {
+    expect(createMachine('checkout', checkout).getSnapshot().currentState).to.equal(
+      'checkout.payment.enteringCard',
+    );
+    expect(
+      createMachine('a', {a: {states: {b: {}, c: {}}}}).getSnapshot().currentState,
+    ).to.equal('a.b');
+  });
+
+  it('should bubble unhandled events to parent states', () => {
+    const machine = createMachine('checkout', checkout);
+
+    expect(machine.availableTransitions()).to.eql(['submit', 'back', 'cancel']);
+
+    machine.transition('back');
+    expect(machine.getSnapshot().currentState).to.equal('checkout.shipping');
+
+    machine.transition('cancel');
+    expect(machine.getSnapshot().currentState).to.equal('cart');
+  });
+
+  it('should handle event in deepest state first', () => {
+    const machine = createMachine('checkout', checkout);
+
+    machine.transition('submit');
+    machine.transition('cancel');
+
+    expect(machine.getSnapshot().currentState).to.equal('checkout.payment.enteringCard');
+  });
+
+  it('should bubble event when guard of child transition fails', () => {
+    const machine = createMachine('parent', {
+      parent: {
+        reset: 'other',
+        states: {child: {reset: {target: 'sibling', guard: () => false}}, sibling: {}},
+      },
+      other: {},
+    });
+
+    expect(machine.availableTransitions({guarded: true})).to.eql(['reset']);
+    expect(machine.transition('reset')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('other');
+  });
+
+  it('should resolve absolute targets', () => {
+    const machine = createMachine('checkout', checkout);
+
+    machine.transition('submit');
+    machine.transition('done');
+
+    expect(machine.getSnapshot().currentState).to.equal('checkout.confirmed');
+  });
+
+  it('should run exit and entry actions only for changed states', () => {
+    const calls: string[] = [];
+    const track = (name: string) => ({
+      onEntry: () => {
+        calls.push(`enter ${name}`);
+        return () => calls.push(`cleanup ${name}`);
+      },
+      onExit: () => {
+        calls.push(`exit ${name}`);
+      },
+    });
+    const machine = createMachine('cart', {
+      cart: {...track('cart'), checkout: 'checkout'},
+      checkout: {
+        ...track('checkout'),
+        cancel: 'cart',
+        states: {
+          payment: {...track('payment'), next: 'review'},
+          review: {...track('review'), retry: 'review'},
+        },
+      },
+    });
+    calls.length = 0;
+
+    machine.transition('checkout');
+    expect(calls).to.eql(['cleanup cart', 'exit cart', 'enter checkout', 'enter payment']);
+
+    calls.length = 0;
+    machine.transition('next');
+    expect(calls).to.eql(['cleanup payment', 'exit payment', 'enter review']);
+
+    calls.length = 0;
+    machine.transition('retry');
+    expect(calls).to.eql(['cleanup review', 'exit review', 'enter review']);
+
+    calls.length = 0;
+    machine.transition('cancel');
+    expect(calls).to.eql([
+      'cleanup review',
+      'exit review',
+      'cleanup checkout',
+      'exit checkout',
+      'enter cart',
+    ]);
+  });
+
+  it('should undo to nested state', () => {
+    const machine = createMachine('cart', checkout);
+
+    machine.transition('checkout');
+    machine.transition('submit');
+    machine.transition('cancel');
+    machine.undo();
+
+    expect(machine.getSnapshot().currentState).to.equal('checkout.payment.verifying');
+    expect(machine.getHistory()).to.eql(['cart', 'checkout.payment.enteringCard']);
+  });
+
+  it('should clean up all active states on stop', () => {
+    const calls: string[] = [];
+    const machine = createMachine('parent', {
+      parent: {
+        onEntry: () => () => calls.push('parent'),
+        states: {child: {onEntry: () => () => calls.push('child')}},
+      },
+    });
+
+    machine.stop();
+
+    expect(calls).to.eql(['child', 'parent']);
+  });
+});
+
+describe('createMachine parallel regions', () => {
+  const player = {
+    playback: {
+      paused: {play: 'playing', stop: 'paused'},
+      playing: {pause: 'paused', stop: 'paused'},
+    },
+    volume: {
+      unmuted: {mute: 'muted'},
+      muted: {unmute: 'unmuted', stop: 'unmuted'},
+    },
+  } as const;
+
+  it('should keep state of every region', () => {
+    const machine = createMachine({playback: 'paused', volume: 'unmuted'}, player);
+
+    machine.transition('play');
+    machine.transition('mute');
+
+    expect(machine.getSnapshot().currentState).to.eql({playback: 'playing', volume: 'muted'});
+    expect(machine.matches('playback.playing')).to.equal(true);
+    expect(machine.matches('volume')).to.equal(true);
+    expect(machine.matches('volume.unmuted')).to.equal(false);
+    expect(machine.availableTransitions()).to.eql(['pause', 'stop', 'unmute']);
+  });
+
+  it('should move several regions with one event and one history entry', () => {
+    const machine = createMachine({playback: 'playing', volume: 'muted'}, player);
+
+    machine.transition('stop');
+
+    expect(machine.getSnapshot().currentState).to.eql({playback: 'paused', volume: 'unmuted'});
+    expect(machine.getTransitionLog()).to.eql([
+      {
+        from: {playback: 'playing', volume: 'muted'},
+        to: {playback: 'paused', volume: 'unmuted'},
+        event: 'stop',
+        timestamp: machine.getTransitionLog()[0].timestamp,
+        payload: undefined,
+      },
+    ]);
+
+    machine.undo();
+
+    expect(machine.getSnapshot().currentState).to.eql({playback: 'playing', volume: 'muted'});
+  });
+
+  it('should reject event not handled by any region', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine({playback: 'paused', volume: 'unmuted'}, player, {
+      logLevel: 'info',
+      logger,
+    });
+
+    expect(machine.transition('pause')).to.equal(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Invalid transition from {"playback":"paused","volume":"unmuted"} to pause',
+    );
+  });
+
+  it('should run actions of changed regions only', () => {
+    const calls: string[] = [];
+    const machine = createMachine(
+      {playback: 'paused', volume: 'muted'},
+      {
+        playback: {
+          paused: {play: 'playing', onExit: ({to}) => calls.push(`exit paused to ${to}`)},
+          playing: {onEntry: () => () => calls.push('cleanup playing')},
+        },
+        volume: {
+          muted: {
+            stop: {target: 'unmuted', onTransition: () => calls.push('unmute')},
+            onExit: () => calls.push('exit muted'),
+          },
+          unmuted: {
+            stop: 'muted',
+            onEntry: () => {
+              calls.push('enter unmuted');
+            },
+          },
+        },
+      },
+    );
+
+    machine.transition('play');
+    expect(calls).to.eql(['exit paused to playing']);
+
+    calls.length = 0;
+    machine.transition('stop');
+    expect(calls).to.eql(['exit muted', 'unmute', 'enter unmuted']);
+
+    calls.length = 0;
+    machine.undo();
+    machine.stop();
+    expect(calls).to.eql(['cleanup playing']);
+  });
+
+  it('should pass region state to guards and apply assign of every region', () => {
+    const guard = vi.fn(() => true);
+    const machine = createMachine(
+      {a: 'idle', b: 'idle'},
+      {
+        a: {idle: {tick: {target: 'idle', guard, assign: (count: number) => count + 1}}},
+        b: {idle: {tick: {target: 'idle', assign: (count: number) => count * 10}}},
+      },
+      {context: 1},
+    );
+
+    machine.transition('tick', 'payload');
+
+    expect(guard).toHaveBeenCalledWith('idle', 'payload', 1);
+    expect(machine.getSnapshot().context).to.equal(20);
+  });
+});
+
+describe('createMachine delayed transitions', () => {
+  const toast = {
+    visible: {close: 'hidden', after: {3000: 'hidden'}},
+    hidden: {show: 'visible'},
+  } as const;
+
+  it('should transition after delay', () => {
+    vi.useFakeTimers();
+    const machine = createMachine('visible', toast);
+
+    vi.advanceTimersByTime(2999);
+    expect(machine.getSnapshot().currentState).to.equal('visible');
+
+    vi.advanceTimersByTime(1);
+    expect(machine.getSnapshot().currentState).to.equal('hidden');
+    expect(machine.getTransitionLog()[0].event).to.equal('after(3000)');
+    vi.useRealTimers();
+  });
+
+  it('should clear timers when state is exited or machine is stopped', () => {
+    const timers: (() => void)[] = [];
+    const clock: FSMClock = {
+      now: () => 0,
+      setTimeout: (callback) => timers.push(callback),
+      clearTimeout: vi.fn(),
+    };
+    const machine = createMachine('visible', toast, {clock});
+
+    machine.transition('close');
+    expect(clock.clearTimeout).toHaveBeenCalledWith(1);
+
+    timers[0]();
+    expect(machine.getSnapshot().currentState).to.equal('hidden');
+    expect(machine.getTransitionLog()).to.have.length(1);
+
+    machine.transition('show');
+    machine.stop();
+    expect(clock.clearTimeout).toHaveBeenCalledWith(2);
+  });
+
+  it('should check guard and resolve target from state of after', () => {
+    vi.useFakeTimers();
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine(
+      'typing',
+      {
+        typing: {
+          initial: 'active',
+          after: {500: {target: 'idle', guard: (state) => state === 'typing.active'}},
+          states: {active: {pause: 'paused'}, paused: {}},
+        },
+        idle: {},
+      },
+      {logLevel: 'debug', logger},
+    );
+
+    vi.advanceTimersByTime(500);
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+    expect(logger.log).toHaveBeenCalledWith('Transitioning from typing.active to after(500)');
+
+    machine.undo();
+    machine.transition('pause');
+    vi.advanceTimersByTime(500);
+    expect(machine.getSnapshot().currentState).to.equal('typing.paused');
+    vi.useRealTimers();
+  });
+});
+
+describe('createMachine invoke', () => {
+  const deferred = () => {
+    let resolve: (value: unknown) => void = () => undefined;
+    let reject: (error: unknown) => void = () => undefined;
+    const promise = new Promise((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return {promise, resolve, reject};
+  };
+
+  it('should transition to onDone with result as payload', async () => {
+    const request = deferred();
+    const invoke = vi.fn(() => request.promise);
+    const machine = createMachine(
+      'idle',
+      {
+        idle: {submit: 'submitting'},
+        submitting: {
+          invoke,
+          onDone: {target: 'done', assign: (_, result: string) => result},
+          onError: 'fail',
+        },
+        done: {},
+        fail: {},
+      },
+      {context: ''},
+    );
+
+    machine.transition('submit');
+    expect(invoke).toHaveBeenCalledWith('', expect.any(AbortSignal));
+
+    request.resolve('saved');
+    await request.promise;
+
+    expect(machine.getSnapshot()).to.include({currentState: 'done', context: 'saved'});
+    expect(machine.getTransitionLog()[1]).to.include({event: 'onDone', payload: 'saved'});
+  });
+
+  it('should transition to onError with error as payload', async () => {
+    const request = deferred();
+    const machine = createMachine('submitting', {
+      submitting: {invoke: () => request.promise, onDone: 'done', onError: 'fail'},
+      done: {},
+      fail: {},
+    });
+
+    request.reject('network');
+    await request.promise.catch(() => undefined);
+
+    expect(machine.getSnapshot().currentState).to.equal('fail');
+    expect(machine.getTransitionLog()[0]).to.include({event: 'onError', payload: 'network'});
+  });
+
+  it('should abort signal on exit and ignore stale result', async () => {
+    const request = deferred();
+    let signal: AbortSignal | undefined;
+    const machine = createMachine('submitting', {
+      submitting: {
+        cancel: 'idle',
+        invoke: (_, abortSignal) => {
+          signal = abortSignal;
+          return request.promise;
+        },
+        onDone: 'done',
+      },
+      idle: {},
+      done: {},
+    });
+
+    machine.transition('cancel');
+    expect(signal?.aborted).to.equal(true);
+
+    request.resolve('late');
+    await request.promise;
+
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+  });
+
+  it('should warn about rejected invoke without onError', async () => {
+    const request = deferred();
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine(
+      'loading',
+      {loading: {invoke: () => request.promise, onDone: 'done'}, done: {}},
+      {logLevel: 'info', logger},
+    );
+
+    request.reject(new Error('network'));
+    await request.promise.catch(() => undefined);
+
+    expect(machine.getSnapshot().currentState).to.equal('loading');
+    expect(logger.warn).toHaveBeenCalledWith('Unhandled invoke error in loading');
+  });
+
+  it('should ignore resolved invoke without onDone', async () => {
+    const request = deferred();
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine(
+      'loading',
+      {loading: {invoke: () => request.promise, onError: 'fail'}, fail: {}},
+      {logLevel: 'info', logger},
+    );
+
+    request.resolve('result');
+    await request.promise;
+
+    expect(machine.getSnapshot().currentState).to.equal('loading');
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('createMachine wildcard', () => {
+  const session = {
+    '*': {logout: 'signedOut', reset: {target: 'browsing', assign: () => ({items: 0})}},
+    signedOut: {login: 'browsing', logout: 'signedOut'},
+    browsing: {add: {target: 'browsing', assign: (context: {items: number}) => ({items: context.items + 1})}},
+    checkout: {
+      initial: 'payment',
+      reset: 'checkout',
+      states: {payment: {pay: 'paid'}, paid: {}},
+    },
+  } as const;
+
+  it('should apply wildcard transitions in every state', () => {
+    const machine = createMachine('browsing', session, {context: {items: 0}});
+
+    machine.transition<'browsing'>('add');
+    expect(machine.transition<'browsing'>('reset')).to.equal(true);
+    expect(machine.getSnapshot().context).to.eql({items: 0});
+    expect(machine.transition<'browsing'>('logout')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('signedOut');
+    expect(machine.availableTransitions()).to.eql(['login', 'logout', 'reset']);
+  });
+
+  it('should let states and their parents override wildcard', () => {
+    const machine = createMachine('checkout', session, {context: {items: 0}});
+
+    machine.transition<'checkout'>('pay');
+    machine.transition<'checkout'>('reset');
+
+    expect(machine.getSnapshot().currentState).to.equal('checkout.payment');
+    expect(machine.availableTransitions()).to.eql(['pay', 'reset', 'logout']);
+  });
+
+  it('should not treat wildcard as state', () => {
+    // @ts-expect-error wildcard is not a state
+    createMachine('*', {'*': {reset: 'idle'}, idle: {}});
+    // @ts-expect-error wildcard can't be a target
+    createMachine('idle', {'*': {reset: 'idle'}, idle: {back: '*'}});
+    // @ts-expect-error wildcard has transitions only
+    createMachine('idle', {'*': {onEntry: () => undefined}, idle: {}});
+
+    const storage = memoryStorageAdapter();
+    storage.setItem('wildcard', JSON.stringify({version: 0, state: {currentState: '*', history: [], future: []}}));
+    const machine = createMachine('idle', {'*': {reset: 'idle'}, idle: {}}, {persist: {key: 'wildcard', storage}});
+
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+  });
+});
+
+describe('createMachine event queue', () => {
+  it('should run transitions called from actions after current transition completes', () => {
+    const calls: string[] = [];
+    const machine = createMachine('idle', {
+      idle: {start: 'loading'},
+      loading: {
+        onEntry: () => {
+          calls.push('enter loading');
+          expect(machine.transition<'loading'>('loaded')).to.equal(true);
+          calls.push('after transition');
+        },
+        loaded: {target: 'ready', onTransition: () => calls.push('loaded')},
+      },
+      ready: {},
+    });
+
+    machine.transition('start');
+
+    expect(calls).to.eql(['enter loading', 'after transition', 'loaded']);
+    expect(machine.getSnapshot().currentState).to.equal('ready');
+    expect(machine.getHistory()).to.eql(['idle', 'loading']);
+  });
+
+  it('should send events against state left by previous event', () => {
+    const machine = createMachine('idle', transitions);
+
+    expect(machine.send(['typing', 'submitting', 'restart', {event: 'failure', payload: 'timeout'}])).to.eql([
+      true,
+      true,
+      false,
+      true,
+    ]);
+    expect(machine.getSnapshot().currentState).to.equal('fail');
+    expect(machine.getTransitionLog().map(({event, payload}) => [event, payload])).to.eql([
+      ['typing', undefined],
+      ['submitting', undefined],
+      ['failure', 'timeout'],
+    ]);
+  });
+
+  it('should throw first error of queue after the rest of queue runs', () => {
+    const machine = createMachine('idle', {
+      idle: {start: 'loading'},
+      loading: {
+        onEntry: () => {
+          machine.transition<'loading'>('nope' as 'loaded');
+          machine.transition<'loading'>('loaded');
+        },
+        loaded: 'ready',
+      },
+      ready: {},
+    }, {onInvalidTransition: 'throw'});
+
+    expect(() => machine.transition('start')).toThrow('Invalid transition from loading to nope');
+    expect(machine.getSnapshot().currentState).to.equal('ready');
+    expect(machine.getHistory()).to.eql(['idle', 'loading']);
+  });
+
+  it('should drop queue when action throws', () => {
+    const machine = createMachine('idle', {
+      idle: {start: 'broken'},
+      broken: {
+        onEntry: () => {
+          machine.transition<'broken'>('next');
+          throw new Error('broken entry');
+        },
+        next: 'idle',
+      },
+    });
+
+    expect(() => machine.transition('start')).toThrow('broken entry');
+    expect(machine.getSnapshot().currentState).to.equal('broken');
+    expect(machine.transition<'broken'>('next')).to.equal(true);
+  });
+});
+
+describe('createMachine middleware', () => {
+  it('should run middleware in order around transition', () => {
+    const calls: string[] = [];
+    const machine = createMachine('idle', transitions, {
+      middleware: [
+        (transition, next) => {
+          calls.push(`first ${JSON.stringify(transition)}`);
+          const result = next();
+          calls.push(`first done ${result}`);
+          return result;
+        },
+        ({to}, next) => {
+          calls.push(`second ${to}`);
+          return next();
+        },
+      ],
+    });
+
+    expect(machine.transition('typing', 'draft')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('typing');
+    expect(calls).to.eql([
+      'first {"from":"idle","event":"typing","to":"typing","payload":"draft"}',
+      'second typing',
+      'first done true',
+    ]);
+  });
+
+  it('should cancel transition when next is not called', () => {
+    const onTransition = vi.fn();
+    const assign = vi.fn();
+    const machine = createMachine(
+      'idle',
+      {idle: {typing: {target: 'typing', assign, onTransition}}, typing: {}},
+      {middleware: [({event}, next) => (event === 'typing' ? false : next())]},
+    );
+
+    expect(machine.transition('typing')).to.equal(false);
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+    expect(machine.getHistory()).to.eql([]);
+    expect(assign).not.toHaveBeenCalled();
+    expect(onTransition).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite target of transition', () => {
+    const calls: string[] = [];
+    const machine = createMachine(
+      'idle',
+      {
+        idle: {typing: {target: 'typing', onTransition: ({to}) => calls.push(`transition to ${to}`)}},
+        typing: {onEntry: () => {
+          calls.push('enter typing');
+        }},
+        fail: {onEntry: () => {
+          calls.push('enter fail');
+        }},
+      },
+      {
+        middleware: [
+          (_, next) => next('fail'),
+          ({to}, next) => {
+            calls.push(`second ${to}`);
+            return next();
+          },
+        ],
+      },
+    );
+
+    expect(machine.transition('typing')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('fail');
+    expect(calls).to.eql(['second fail', 'transition to fail', 'enter fail']);
+  });
+
+  it('should resolve rewritten compound target and reject unknown one', () => {
+    const machine = createMachine(
+      'idle',
+      {
+        idle: {start: 'checkout', typing: 'idle'},
+        checkout: {initial: 'cart', states: {cart: {}, payment: {}}},
+      },
+      {
+        onInvalidTransition: 'throw',
+        middleware: [({event}, next) => (event === 'typing' ? next('unknown') : next('checkout'))],
+      },
+    );
+
+    expect(() => machine.transition('typing')).toThrow('Invalid target unknown of typing');
+    expect(machine.transition('start')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('checkout.cart');
+  });
+
+  it('should reject unknown target of untyped transitions map', () => {
+    const onInvalidTransition = vi.fn();
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const map: Record<string, Record<string, string>> = {a: {go: 'zzz', next: 'b'}, b: {}};
+    const store = createFSMStore('a', map, {onInvalidTransition, logLevel: 'debug', logger});
+
+    expect(store.transition('go')).to.equal(false);
+    expect(onInvalidTransition).toHaveBeenCalledWith({from: 'a', event: 'go', available: ['go', 'next']});
+    expect(logger.log).toHaveBeenCalledWith('Unknown target zzz of go in a');
+    expect(store.getSnapshot().currentState).to.equal('a');
+  });
+
+  it('should apply transition once when middleware calls next twice', () => {
+    const results: boolean[] = [];
+    const machine = createMachine('idle', transitions, {
+      middleware: [(_, next) => {
+        results.push(next());
+        results.push(next());
+        return results[0];
+      }],
+    });
+
+    expect(machine.transition('typing')).to.equal(true);
+    expect(results).to.eql([true, false]);
+    expect(machine.getHistory()).to.eql(['idle']);
+  });
+
+  it('should rewrite states of other regions', () => {
+    const onEntry = vi.fn();
+    const machine = createMachine(
+      {playback: 'paused', volume: 'normal'},
+      {
+        playback: {paused: {play: 'playing'}, playing: {}},
+        volume: {normal: {}, muted: {onEntry}},
+      },
+      {middleware: [({to}, next) => next({...(to as Record<string, string>), volume: 'muted'})]},
+    );
+
+    expect(machine.transition('play')).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.eql({playback: 'playing', volume: 'muted'});
+    expect(onEntry).toHaveBeenCalledTimes(1);
+    expect(() =>
+      createMachine(
+        {playback: 'paused', volume: 'normal'},
+        {playback: {paused: {play: 'playing'}, playing: {}}, volume: {normal: {}}},
+        {onInvalidTransition: 'throw', middleware: [(_, next) => next('playing')]},
+      ).transition('play'),
+    ).toThrow('Invalid target playing of play');
+  });
+
+  it('should pass undo through middleware', () => {
+    const seen: unknown[] = [];
+    let allowed = false;
+    const machine = createMachine('idle', transitions, {
+      middleware: [
+        (transition, next) => {
+          seen.push(transition);
+          return transition.event !== 'undo' || allowed ? next() : false;
+        },
+      ],
+    });
+
+    machine.transition('typing');
+
+    expect(machine.undo()).to.equal(false);
+    expect(machine.getSnapshot().currentState).to.equal('typing');
+    allowed = true;
+    expect(machine.undo()).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+    expect(seen[1]).to.eql({from: 'typing', event: 'undo', to: 'idle'});
+  });
+
+  it('should not rewrite target of undo', () => {
+    const onInvalidTransition = vi.fn();
+    const machine = createMachine('idle', transitions, {
+      onInvalidTransition,
+      middleware: [({event}, next) => (event === 'undo' ? next('fail') : next())],
+    });
+
+    machine.transition('typing');
+
+    expect(machine.undo()).to.equal(false);
+    expect(machine.getSnapshot().currentState).to.equal('typing');
+    expect(onInvalidTransition).toHaveBeenCalledWith({from: 'typing', event: 'undo', available: ['submitting', 'canceling']});
+  });
+
+  it('should pass delayed transitions through middleware', () => {
+    let callback = () => {};
+    const clock: FSMClock = {
+      now: () => 0,
+      setTimeout: (next) => {
+        callback = next;
+      },
+      clearTimeout: () => {},
+    };
+    const machine = createMachine(
+      'idle',
+      {idle: {after: {500: 'typing'}}, typing: {}},
+      {clock, middleware: [() => false]},
+    );
+
+    callback();
+
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+  });
+
+  it('should log with loggerMiddleware after middleware of config', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const machine = createMachine('idle', transitions, {
+      logLevel: 'debug',
+      logger,
+      middleware: [({event}, next) => (event === 'canceling' ? false : next(event === 'typing' ? 'submitting' : undefined))],
+    });
+
+    machine.transition('typing');
+    machine.transition('canceling');
+    machine.undo();
+
+    expect(logger.log).toHaveBeenCalledTimes(2);
+    expect(logger.log).toHaveBeenCalledWith('Transitioning from idle to typing');
+    expect(logger.log).toHaveBeenCalledWith('Undoing from submitting to idle');
+    expect(machine.getSnapshot().currentState).to.equal('idle');
+  });
+});
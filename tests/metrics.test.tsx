@@ -0,0 +1,186 @@
+import {it, expect, describe, vi} from 'vitest'
+import {renderHook, act} from '@testing-library/react';
+import {createFSMMetrics, createMachine, FSMClock, useFSM, useFSMMetrics} from '../src';
+
+const transitions = {
+  idle: {typing: 'typing'},
+  typing: {submitting: 'submitting', canceling: 'idle'},
+  submitting: {success: 'idle', failure: 'fail'},
+  fail: {restart: 'idle'},
+} as const;
+
+const createClock = () => {
+  const timers = new Map<number, {callback: () => void; at: number}>();
+  let lastTimer = 0;
+  const clock = {
+    time: 0,
+    now: () => clock.time,
+    setTimeout: (callback: () => void, delay: number) => {
+      timers.set(++lastTimer, {callback, at: clock.time + delay});
+      return lastTimer;
+    },
+    clearTimeout: (timer: unknown) => {
+      timers.delete(timer as number);
+    },
+    advance: (time: number) => {
+      clock.time += time;
+      timers.forEach(({callback, at}, timer) => {
+        if (at <= clock.time) {
+          timers.delete(timer);
+          callback();
+        }
+      });
+    },
+    pending: () => timers.size,
+  };
+  return clock satisfies FSMClock;
+};
+
+describe('createFSMMetrics', () => {
+  it('should record dwell time and transition counts', () => {
+    const clock = createClock();
+    const metrics = createFSMMetrics({clock});
+    const machine = createMachine('idle', transitions, {metrics});
+
+    clock.advance(100);
+    machine.transition('typing');
+    clock.advance(2000);
+    machine.transition('submitting');
+    clock.advance(300);
+    machine.transition('failure');
+    machine.transition('restart');
+    machine.transition('typing');
+    clock.advance(1000);
+    machine.transition('submitting');
+    machine.transition('restart');
+
+    expect(metrics.getSummary()).to.eql({
+      from: 0,
+      to: 3400,
+      states: {
+        idle: {entries: 2, exits: 2, totalTime: 100, averageTime: 50},
+        typing: {entries: 2, exits: 2, totalTime: 3000, averageTime: 1500},
+        submitting: {entries: 2, exits: 1, totalTime: 300, averageTime: 300, enteredAt: 3400},
+        fail: {entries: 1, exits: 1, totalTime: 0, averageTime: 0},
+      },
+      transitions: {typing: 2, submitting: 2, failure: 1, restart: 1},
+      invalidTransitions: {restart: 1},
+    });
+    expect(JSON.parse(JSON.stringify(metrics.getSummary()))).to.eql(metrics.getSummary());
+  });
+
+  it('should start new period on flush', () => {
+    const clock = createClock();
+    const metrics = createFSMMetrics({clock});
+    const machine = createMachine('idle', transitions, {metrics});
+
+    machine.transition('typing');
+    clock.advance(500);
+    expect(metrics.flush().transitions).to.eql({typing: 1});
+
+    clock.advance(500);
+    machine.transition('canceling');
+
+    expect(metrics.flush()).to.eql({
+      from: 500,
+      to: 1000,
+      states: {
+        idle: {entries: 1, exits: 0, totalTime: 0, averageTime: 0, enteredAt: 1000},
+        typing: {entries: 0, exits: 1, totalTime: 1000, averageTime: 1000},
+      },
+      transitions: {canceling: 1},
+      invalidTransitions: {},
+    });
+    expect(metrics.flush().states).to.eql({
+      idle: {entries: 0, exits: 0, totalTime: 0, averageTime: 0, enteredAt: 1000},
+    });
+  });
+
+  it('should record parent states, regions and undo', () => {
+    const clock = createClock();
+    const metrics = createFSMMetrics({clock});
+    const machine = createMachine(
+      {checkout: 'cart', playback: 'paused'},
+      {
+        checkout: {
+          cart: {pay: 'payment'},
+          payment: {initial: 'card', states: {card: {confirm: 'confirming'}, confirming: {}}},
+        },
+        playback: {paused: {play: 'playing'}, playing: {}},
+      },
+      {metrics},
+    );
+
+    machine.transition('pay');
+    clock.advance(100);
+    machine.transition('confirm');
+    clock.advance(100);
+    machine.undo();
+    machine.undo();
+    machine.undo();
+
+    expect(metrics.getSummary().states).to.eql({
+      'checkout.cart': {entries: 2, exits: 1, totalTime: 0, averageTime: 0, enteredAt: 200},
+      'playback.paused': {entries: 1, exits: 0, totalTime: 0, averageTime: 0, enteredAt: 0},
+      'checkout.payment': {entries: 1, exits: 1, totalTime: 200, averageTime: 200},
+      'checkout.payment.card': {entries: 2, exits: 2, totalTime: 100, averageTime: 50},
+      'checkout.payment.confirming': {entries: 1, exits: 1, totalTime: 100, averageTime: 100},
+    });
+    expect(metrics.getSummary().invalidTransitions).to.eql({undo: 1});
+  });
+
+  it('should use Date.now by default', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(42);
+
+    expect(createFSMMetrics().getSummary().from).to.equal(42);
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe('useFSMMetrics', () => {
+  it('should flush summary to reporter on interval and unmount', () => {
+    const clock = createClock();
+    const reporter = vi.fn();
+
+    const {result, unmount} = renderHook(() => {
+      const metrics = useFSMMetrics({reporter, interval: 1000, clock});
+      return useFSM('idle', transitions, {metrics, clock});
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+    act(() => {
+      clock.advance(1000);
+    });
+
+    expect(reporter).toHaveBeenCalledTimes(1);
+    expect(reporter.mock.calls[0][0].transitions).to.eql({typing: 1});
+
+    act(() => {
+      result.current.transition('submitting');
+      clock.advance(500);
+    });
+    unmount();
+
+    expect(reporter).toHaveBeenCalledTimes(2);
+    expect(reporter.mock.calls[1][0]).toMatchObject({from: 1000, to: 1500, transitions: {submitting: 1}});
+    expect(clock.pending()).to.equal(0);
+  });
+
+  it('should call latest reporter and keep collector between renders', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const {result, rerender, unmount} = renderHook(({reporter}) => useFSMMetrics({reporter}), {
+      initialProps: {reporter: first},
+    });
+    const metrics = result.current;
+    rerender({reporter: second});
+    unmount();
+
+    expect(result.current).to.equal(metrics);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
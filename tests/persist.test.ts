@@ -0,0 +1,141 @@
+import {it, expect, describe, vi} from 'vitest'
+import {
+  createMachine,
+  FSMLogger,
+  localStorageAdapter,
+  memoryStorageAdapter,
+  sessionStorageAdapter,
+} from '../src';
+
+const transitions = {
+  step1: {next: 'step2'},
+  step2: {next: 'step3', back: 'step1'},
+  step3: {back: 'step2'},
+} as const;
+
+describe('storage adapters', () => {
+  it('should store items in memory', () => {
+    const storage = memoryStorageAdapter();
+
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).to.equal('value');
+
+    storage.removeItem('key');
+    expect(storage.getItem('key')).to.equal(null);
+  });
+
+  it('should store items in localStorage and sessionStorage', () => {
+    localStorageAdapter().setItem('local', '1');
+    sessionStorageAdapter().setItem('session', '2');
+
+    expect(window.localStorage.getItem('local')).to.equal('1');
+    expect(sessionStorageAdapter().getItem('session')).to.equal('2');
+
+    localStorageAdapter().removeItem('local');
+    sessionStorageAdapter().removeItem('session');
+    expect(window.localStorage.getItem('local')).to.equal(null);
+    expect(window.sessionStorage.getItem('session')).to.equal(null);
+  });
+});
+
+describe('createMachine persist', () => {
+  it('should save state and history and restore them', () => {
+    const storage = memoryStorageAdapter();
+    const persist = {key: 'wizard', storage, version: 1};
+    const machine = createMachine('step1', transitions, {context: {name: ''}, persist});
+
+    machine.transition('next', 'name');
+    expect(JSON.parse(storage.getItem('wizard') as string)).to.include({version: 1});
+
+    const restored = createMachine('step1', transitions, {context: {name: ''}, persist});
+
+    expect(restored.getSnapshot()).to.eql(machine.getSnapshot());
+    expect(restored.undo()).to.equal(true);
+    expect(restored.getSnapshot().currentState).to.equal('step1');
+  });
+
+  it('should use localStorage by default', () => {
+    createMachine('step1', transitions, {persist: {key: 'default'}}).transition('next');
+
+    expect(createMachine('step1', transitions, {persist: {key: 'default'}}).getSnapshot().currentState)
+      .to.equal('step2');
+    window.localStorage.clear();
+  });
+
+  it('should drop state missing in transitions map', () => {
+    const storage = memoryStorageAdapter();
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    createMachine('step1', transitions, {persist: {key: 'wizard', storage}}).transition('next');
+
+    const machine = createMachine('a', {a: {next: 'step1'}, step1: {}}, {
+      persist: {key: 'wizard', storage},
+      logLevel: 'info',
+      logger,
+    });
+
+    expect(machine.getSnapshot().currentState).to.equal('a');
+    expect(logger.warn).toHaveBeenCalledWith('Persisted state of wizard is dropped');
+  });
+
+  it('should drop broken state and compound state', () => {
+    const storage = memoryStorageAdapter();
+    storage.setItem('broken', '{');
+    storage.setItem('compound', JSON.stringify({
+      version: 0,
+      state: {currentState: 'parent', context: undefined, history: [], future: []},
+    }));
+
+    expect(createMachine('step1', transitions, {persist: {key: 'broken', storage}})
+      .getSnapshot().currentState).to.equal('step1');
+    expect(createMachine('parent', {parent: {states: {child: {}}}}, {persist: {key: 'compound', storage}})
+      .getSnapshot().currentState).to.equal('parent.child');
+  });
+
+  it('should warn and notify listeners when state is not saved', () => {
+    const logger: FSMLogger = {log: vi.fn(), warn: vi.fn()};
+    const listener = vi.fn();
+    const payload: Record<string, unknown> = {};
+    payload.self = payload;
+    const machine = createMachine('idle', {idle: {go: 'busy'}, busy: {}}, {
+      persist: {key: 'circular', storage: memoryStorageAdapter()},
+      logLevel: 'info',
+      logger,
+    });
+    machine.subscribe(listener);
+
+    expect(machine.transition('go', payload)).to.equal(true);
+    expect(machine.getSnapshot().currentState).to.equal('busy');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith('Persisted state of circular is not saved');
+    expect(() => createMachine('idle', {idle: {go: 'busy'}, busy: {}}, {
+      persist: {key: 'quota', storage: {getItem: () => null, setItem: () => {
+        throw new Error('QuotaExceededError');
+      }, removeItem: () => {}}},
+    }).transition('go')).not.toThrow();
+  });
+
+  it('should migrate state of other version', () => {
+    const storage = memoryStorageAdapter();
+    createMachine('step1', transitions, {persist: {key: 'wizard', storage, version: 1}})
+      .transition('next');
+    const migrate = vi.fn((state) => ({...state, currentState: 'step3'}));
+
+    const machine = createMachine('step1', transitions, {persist: {key: 'wizard', storage, version: 2, migrate}});
+    const dropped = createMachine('step1', transitions, {persist: {key: 'wizard', storage, version: 3}});
+
+    expect(migrate).toHaveBeenCalledWith(expect.objectContaining({currentState: 'step2'}), 1);
+    expect(machine.getSnapshot().currentState).to.equal('step3');
+    expect(dropped.getSnapshot().currentState).to.equal('step1');
+  });
+
+  it('should restore parallel state', () => {
+    const storage = memoryStorageAdapter();
+    const regions = {a: {on: {toggle: 'off'}, off: {toggle: 'on'}}, b: {x: {}}} as const;
+    createMachine({a: 'on', b: 'x'}, regions, {persist: {key: 'parallel', storage}}).transition('toggle');
+
+    expect(createMachine({a: 'on', b: 'x'}, regions, {persist: {key: 'parallel', storage}})
+      .getSnapshot().currentState).to.eql({a: 'off', b: 'x'});
+    expect(createMachine('on', regions.a, {persist: {key: 'parallel', storage}})
+      .getSnapshot().currentState).to.equal('on');
+  });
+});
@@ -0,0 +1,171 @@
+import {it, expect, describe} from 'vitest'
+import {renderHook, act} from '@testing-library/react';
+import {createEventRecorder, createMachine, FSMClock, replay, useFSM} from '../src';
+
+const transitions = {
+  idle: {typing: 'typing'},
+  typing: {submitting: 'submitting', canceling: 'idle'},
+  submitting: {success: 'idle', failure: 'fail'},
+  fail: {restart: 'idle'},
+} as const;
+
+const frozen: FSMClock = {now: () => 0, setTimeout: () => 0, clearTimeout: () => {}};
+
+describe('createEventRecorder', () => {
+  it('should record calls as JSON log when they run', () => {
+    let time = 100;
+    const clock: FSMClock = {now: () => time++, setTimeout: () => 0, clearTimeout: () => {}};
+    const recorder = createEventRecorder();
+    const {result} = renderHook(() => useFSM('idle', transitions, {clock, recorder, maxHistoryLength: 1, onInvalidTransition: 'ignore'}));
+
+    act(() => {
+      result.current.transition('typing');
+      result.current.transition('success');
+      result.current.transition('submitting');
+      result.current.transition('failure', {code: 500});
+      result.current.undo();
+      result.current.redo();
+      result.current.jumpTo(0);
+    });
+
+    expect(JSON.parse(JSON.stringify(recorder.getEvents()))).to.eql([
+      {event: 'typing', timestamp: 100},
+      {event: 'success', timestamp: 102},
+      {event: 'submitting', timestamp: 103},
+      {event: 'failure', payload: {code: 500}, timestamp: 105},
+      {type: 'UNDO', timestamp: 107},
+      {type: 'REDO', timestamp: 108},
+      {type: 'JUMP', index: 0, timestamp: 109},
+    ]);
+
+    recorder.clear();
+    expect(recorder.getEvents()).to.eql([]);
+  });
+
+  it('should record after when it reaches its transition', () => {
+    const timers: (() => void)[] = [];
+    const clock: FSMClock = {now: () => 5, setTimeout: (callback) => timers.push(callback), clearTimeout: () => {}};
+    const recorder = createEventRecorder();
+    createMachine('idle', {idle: {after: {1000: 'done'}}, done: {}}, {clock, recorder});
+
+    timers.forEach((timer) => timer());
+
+    expect(recorder.getEvents()).to.eql([{event: 'after(1000)', payload: undefined, timestamp: 5}]);
+  });
+});
+
+describe('replay', () => {
+  it('should return every intermediate state of recorded log', () => {
+    const recorder = createEventRecorder();
+    const machine = createMachine('idle', transitions, {recorder, clock: frozen});
+    machine.send(['typing', 'submitting', 'failure', 'restart']);
+
+    const {states, invalid} = replay('idle', transitions, recorder.getEvents());
+
+    expect(states.map(({currentState}) => currentState)).to.eql(['idle', 'typing', 'submitting', 'fail', 'idle']);
+    expect(states.at(-1)).to.eql(machine.getSnapshot());
+    expect(invalid).to.equal(undefined);
+  });
+
+  it('should replay undo, redo and jumpTo with history of machine', () => {
+    const recorder = createEventRecorder();
+    const machine = createMachine('idle', transitions, {recorder, clock: frozen});
+    machine.send(['typing', 'submitting']);
+    machine.undo();
+    machine.undo();
+    machine.redo();
+    machine.jumpTo(2);
+    machine.transition('failure');
+
+    const {states, invalid} = replay('idle', transitions, recorder.getEvents());
+
+    expect(states.map(({currentState}) => currentState)).to.eql(['idle', 'typing', 'submitting', 'typing', 'idle', 'typing', 'submitting', 'fail']);
+    expect(states.at(-1)).to.eql(machine.getSnapshot());
+    expect(invalid).to.equal(undefined);
+  });
+
+  it('should report rejected undo, redo and jumpTo', () => {
+    const {invalid} = replay('idle', transitions, [
+      {type: 'JUMP', index: 3, timestamp: 0},
+      {type: 'UNDO', timestamp: 1},
+    ]);
+
+    expect(invalid).to.eql({index: 0, from: 'idle', event: 'jumpTo', available: ['typing']});
+    expect(replay('idle', transitions, [{type: 'REDO', timestamp: 0}]).invalid).toMatchObject({event: 'redo'});
+  });
+
+  it('should report first invalid event and keep state', () => {
+    const log = ['typing', 'success', 'submitting', 'restart', 'failure'].map((event, timestamp) => ({event, timestamp}));
+
+    const {states, invalid} = replay('idle', transitions, log);
+
+    expect(states.map(({currentState}) => currentState)).to.eql([
+      'idle',
+      'typing',
+      'typing',
+      'submitting',
+      'submitting',
+      'fail',
+    ]);
+    expect(invalid).to.eql({index: 1, from: 'typing', event: 'success', available: ['submitting', 'canceling']});
+  });
+
+  it('should apply guards and assign with context', () => {
+    const counter = {
+      idle: {
+        add: {target: 'idle', guard: (_: string, amount: number) => amount > 0, assign: (total: number, amount: number) => total + amount},
+      },
+    };
+
+    const {states, invalid} = replay('idle', counter, [
+      {event: 'add', payload: 2, timestamp: 0},
+      {event: 'add', payload: -1, timestamp: 1},
+      {event: 'add', payload: 3, timestamp: 2},
+    ], 10);
+
+    expect(states.map(({context}) => context)).to.eql([10, 12, 12, 15]);
+    expect(invalid).toMatchObject({index: 1, event: 'add'});
+  });
+
+  it('should replay after, invoke results, nested states and wildcard', () => {
+    const checkout = {
+      '*': {reset: 'cart'},
+      cart: {after: {1000: 'checkout'}},
+      checkout: {
+        initial: 'paying',
+        states: {paying: {invoke: () => Promise.resolve('receipt'), onDone: 'paid'}, paid: {}},
+      },
+    };
+
+    const {states, invalid} = replay('cart', checkout, [
+      {event: 'after(1000)', timestamp: 1000},
+      {event: 'onDone', payload: 'receipt', timestamp: 1200},
+      {event: 'reset', timestamp: 1300},
+    ]);
+
+    expect(states.map(({currentState}) => currentState)).to.eql(['cart', 'checkout.paying', 'checkout.paid', 'cart']);
+    expect(invalid).to.equal(undefined);
+  });
+
+  it('should replay parallel regions', () => {
+    const player = {
+      playback: {paused: {play: 'playing'}, playing: {pause: 'paused'}},
+      volume: {normal: {mute: 'muted'}, muted: {unmute: 'normal', pause: 'normal'}},
+    };
+
+    const {states, invalid} = replay({playback: 'paused', volume: 'normal'}, player, [
+      {event: 'play', timestamp: 0},
+      {event: 'mute', timestamp: 1},
+      {event: 'pause', timestamp: 2},
+      {event: 'unmute', timestamp: 3},
+    ]);
+
+    expect(states.at(-1)?.currentState).to.eql({playback: 'paused', volume: 'normal'});
+    expect(invalid).to.eql({
+      index: 3,
+      from: {playback: 'paused', volume: 'normal'},
+      event: 'unmute',
+      available: ['play', 'mute'],
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import {it, expect, describe, vi} from 'vitest'
+import {render, screen, fireEvent, renderHook, act} from '@testing-library/react';
+import {createFSMStore, FSMProvider, useFSM, useFSMSelector, useFSMStore} from '../src';
+
+const createCheckoutStore = () => createFSMStore(
+  'cart',
+  {
+    cart: {checkout: 'payment'},
+    payment: {back: 'cart', pay: {target: 'done', assign: (context: {paid: number}) => ({paid: context.paid + 1})}},
+    done: {restart: 'cart'},
+  },
+  {context: {paid: 0}},
+);
+
+describe('createFSMStore', () => {
+  it('should work without React', () => {
+    const store = createCheckoutStore();
+
+    store.transition('checkout');
+    store.transition('pay');
+
+    expect(store.getSnapshot().currentState).toBe('done');
+    expect(store.getSnapshot().context).toEqual({paid: 1});
+    expect(store.getHistory()).toEqual(['cart', 'payment']);
+    expect(store.availableTransitions()).toEqual(['restart']);
+    expect(store.undo()).toBe(true);
+    expect(store.getSnapshot().currentState).toBe('payment');
+  });
+
+  it('should log diagnostics on debug logLevel', () => {
+    const logger = {log: vi.fn(), warn: vi.fn(), error: vi.fn()};
+
+    createFSMStore('idle', {idle: {typing: 'typing'}, typing: {}, lost: {}}, {logLevel: 'debug', logger});
+
+    expect(logger.log).toHaveBeenCalledWith('Unreachable state lost');
+  });
+});
+
+describe('useFSMStore', () => {
+  it('should share state between components', () => {
+    const store = createCheckoutStore();
+    const Header = () => <p>Step: {useFSMStore(store).currentState}</p>;
+    const Sidebar = () => {
+      const {transition, undo, canUndo} = useFSMStore(store);
+      return (
+        <div>
+          <button onClick={() => transition('checkout')}>Checkout</button>
+          <button onClick={undo} disabled={!canUndo}>Undo</button>
+        </div>
+      );
+    };
+
+    render(<><Header/><Sidebar/></>);
+    fireEvent.click(screen.getByText('Checkout'));
+
+    expect(screen.getByText('Step: payment')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Undo'));
+
+    expect(screen.getByText('Step: cart')).toBeTruthy();
+  });
+
+  it('should keep state when component remounts', () => {
+    const store = createCheckoutStore();
+    const first = renderHook(() => useFSMStore(store));
+
+    act(() => {
+      first.result.current.transition('checkout');
+    });
+    first.unmount();
+    const {result} = renderHook(() => useFSMStore(store));
+
+    expect(result.current.currentState).toBe('payment');
+    expect(result.current.getHistory()).toEqual(['cart']);
+  });
+
+  it('should use named store of FSMProvider', () => {
+    const checkout = createCheckoutStore();
+    const player = createFSMStore('paused', {paused: {play: 'playing'}, playing: {pause: 'paused'}});
+    const Status = () => {
+      const {currentState} = useFSMStore<typeof checkout>('checkout');
+      const playback = useFSMSelector('player', (state) => state.currentState);
+      return <p>{`${currentState} ${playback}`}</p>;
+    };
+
+    render(
+      <FSMProvider stores={{checkout}}>
+        <FSMProvider stores={{player}}>
+          <Status/>
+        </FSMProvider>
+      </FSMProvider>,
+    );
+    act(() => {
+      player.transition('play');
+    });
+
+    expect(screen.getByText('cart playing')).toBeTruthy();
+  });
+
+  it('should throw when named store is not provided', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => renderHook(() => useFSMStore('checkout'))).toThrow('FSM store checkout is not provided');
+    vi.mocked(console.error).mockRestore();
+  });
+});
+
+describe('useFSMSelector', () => {
+  it('should re-render only when selected slice changes', () => {
+    const store = createCheckoutStore();
+    const renders = vi.fn();
+    const Paid = () => {
+      const paid = useFSMSelector(store, (state) => state.context.paid);
+      renders();
+      return <p>Paid: {paid}</p>;
+    };
+
+    render(<Paid/>);
+    act(() => {
+      store.transition('checkout');
+      store.transition('back');
+    });
+
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.transition('checkout');
+      store.transition('pay');
+    });
+
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(screen.getByText('Paid: 1')).toBeTruthy();
+  });
+
+  it('should compare slices with isEqual', () => {
+    const store = createCheckoutStore();
+    const renders = vi.fn();
+    const Log = () => {
+      const log = useFSMSelector(
+        store,
+        (state) => state.history.map(({event}) => event).filter((event) => event === 'pay'),
+        (previous, next) => previous.length === next.length,
+      );
+      renders();
+      return <p>Payments: {log.length}</p>;
+    };
+
+    render(<Log/>);
+    act(() => {
+      store.transition('checkout');
+    });
+
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.transition('pay');
+    });
+
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(screen.getByText('Payments: 1')).toBeTruthy();
+  });
+
+  it('should select with selector of last render', () => {
+    const store = createFSMStore('idle', {idle: {}}, {context: {x: 'x', y: 'y'}});
+
+    const {result, rerender} = renderHook(({key}) => useFSMSelector(store, (state) => state.context[key]), {
+      initialProps: {key: 'x' as 'x' | 'y'},
+    });
+    rerender({key: 'y'});
+
+    expect(result.current).toBe('y');
+  });
+});
+
+describe('FSMProvider stores', () => {
+  it('should keep config of parent provider', () => {
+    const logger = {log: vi.fn(), warn: vi.fn(), error: vi.fn()};
+    const store = createCheckoutStore();
+
+    const {result} = renderHook(() => useFSM('idle', {idle: {typing: 'typing'}, typing: {}}), {
+      wrapper: ({children}) => (
+        <FSMProvider config={{logLevel: 'debug', logger}}>
+          <FSMProvider stores={{store}}>{children}</FSMProvider>
+        </FSMProvider>
+      ),
+    });
+    act(() => {
+      result.current.transition('typing');
+    });
+
+    expect(logger.log).toHaveBeenCalledWith('Transitioning from idle to typing');
+  });
+});
@@ -0,0 +1,139 @@
+import {it, expect, describe} from 'vitest'
+import {act, renderHook} from '@testing-library/react';
+import {useFSM} from '../src';
+import {getShortestPaths, getTransitionPaths, replayPath} from '../src/testing';
+
+const form = {
+  idle: {typing: 'typing'},
+  typing: {submitting: 'submitting', canceling: 'idle'},
+  submitting: {success: 'idle', failure: 'fail'},
+  fail: {restart: 'idle'},
+} as const;
+
+const player = {
+  playback: {paused: {play: 'playing'}, playing: {pause: 'paused'}},
+  volume: {
+    normal: {mute: 'muted'},
+    muted: {unmute: 'normal', pause: 'normal'},
+  },
+} as const;
+
+describe('getShortestPaths', () => {
+  it('should find shortest path to every state', () => {
+    expect(getShortestPaths('idle', form)).toEqual([
+      {state: 'idle', steps: []},
+      {state: 'typing', steps: [{event: 'typing', state: 'typing'}]},
+      {
+        state: 'submitting',
+        steps: [{event: 'typing', state: 'typing'}, {event: 'submitting', state: 'submitting'}],
+      },
+      {
+        state: 'fail',
+        steps: [
+          {event: 'typing', state: 'typing'},
+          {event: 'submitting', state: 'submitting'},
+          {event: 'failure', state: 'fail'},
+        ],
+      },
+    ]);
+  });
+
+  it('should resolve nested states and parent transitions', () => {
+    const paths = getShortestPaths('editing', {
+      editing: {
+        initial: 'draft',
+        states: {draft: {review: 'review'}, review: {}},
+        publish: 'published',
+      },
+      published: {},
+    });
+
+    expect(paths.map(({state, steps}) => [state, steps.map(({event}) => event)])).toEqual([
+      ['editing.draft', []],
+      ['editing.review', ['review']],
+      ['published', ['publish']],
+    ]);
+  });
+
+  it('should walk parallel regions together', () => {
+    expect(getShortestPaths({playback: 'paused', volume: 'normal'}, player).map(({state}) => state)).toEqual([
+      {playback: 'paused', volume: 'normal'},
+      {playback: 'playing', volume: 'normal'},
+      {playback: 'paused', volume: 'muted'},
+      {playback: 'playing', volume: 'muted'},
+    ]);
+  });
+});
+
+describe('getTransitionPaths', () => {
+  it('should cover every transition', () => {
+    const paths = getTransitionPaths('idle', form);
+    const events = paths.flatMap(({steps}) => steps.map(({event}) => event));
+
+    expect(paths.map(({steps}) => steps.map(({event}) => event))).toEqual([
+      ['typing', 'canceling'],
+      ['typing', 'submitting', 'success'],
+      ['typing', 'submitting', 'failure', 'restart'],
+    ]);
+    expect(new Set(events)).toEqual(new Set(['typing', 'canceling', 'submitting', 'success', 'failure', 'restart']));
+  });
+
+  it('should cover transitions of every region', () => {
+    const paths = getTransitionPaths({playback: 'paused', volume: 'normal'}, player);
+
+    expect(paths.map(({steps}) => steps.map(({event}) => event))).toEqual([
+      ['play', 'pause'],
+      ['mute', 'unmute'],
+      ['mute', 'pause'],
+    ]);
+    expect(paths[2].state).toEqual({playback: 'paused', volume: 'normal'});
+  });
+});
+
+describe('replayPath', () => {
+  it.each(getTransitionPaths('idle', form))('should replay path to $state', (path) => {
+    const {result} = renderHook(() => useFSM('idle', form));
+
+    replayPath(result, path, act);
+
+    expect(result.current.currentState).toBe(path.state);
+  });
+
+  it('should replay parallel path', () => {
+    const [, , , path] = getShortestPaths({playback: 'paused', volume: 'normal'}, player);
+    const {result} = renderHook(() => useFSM({playback: 'paused', volume: 'normal'}, player));
+
+    replayPath(result, path, act);
+
+    expect(result.current.currentState).toEqual({playback: 'playing', volume: 'muted'});
+  });
+
+  it('should throw when state differs', () => {
+    const {result} = renderHook(() => useFSM('idle', form));
+
+    expect(() => replayPath(result, {state: 'typing', steps: []}, act)).toThrow('Expected state typing, got idle');
+    expect(() => replayPath(result, {state: 'fail', steps: [{event: 'typing', state: 'fail'}]}, act)).toThrow(
+      'Expected state fail after typing, got typing',
+    );
+    expect(() =>
+      replayPath(result, {state: 'idle', steps: [{event: 'typing', state: 'typing'}]}, act),
+    ).toThrow('Transition typing from typing was rejected');
+  });
+
+  it('should throw when parallel state differs', () => {
+    const {result} = renderHook(() => useFSM({playback: 'paused', volume: 'normal'}, player));
+
+    expect(() => replayPath(result, {state: {playback: 'playing', volume: 'normal'}, steps: []}, act)).toThrow(
+      'Expected state {"playback":"playing","volume":"normal"}, got {"playback":"paused","volume":"normal"}',
+    );
+    expect(() => replayPath(result, {state: 'paused', steps: []}, act)).toThrow();
+  });
+});
+
+describe('wildcard paths', () => {
+  it('should cover wildcard transition once', () => {
+    const paths = getTransitionPaths('idle', {'*': {reset: 'idle'}, idle: {typing: 'typing'}, typing: {}});
+
+    expect(paths.map(({steps}) => steps.map(({event}) => event))).toEqual([['typing'], ['reset']]);
+  });
+});